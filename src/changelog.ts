@@ -0,0 +1,367 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { resolveWithinRoot } from './sandbox';
+import { fromPackageRoot } from './utils';
+
+const changelogsDir = fromPackageRoot('.docs/organized/changelogs');
+
+// Bump whenever the index layout or parsing rules change so stale indexes are rebuilt
+export const CHANGELOG_INDEX_VERSION = 4;
+
+// Version headings written by changesets: `## 0.15.3-alpha.9`
+const VERSION_HEADING = /^##\s+v?(\d+\.\d+\.\d+(?:-[\w.]+)?)\s*$/;
+const VERSION = /^v?(\d+)\.(\d+)\.(\d+)(?:-([\w.]+))?$/;
+
+// Entry prefix written by the changesets GitHub formatter: `[#7032](…) [`1191ce9`](…) Thanks [@user](…)! - `
+// or by the default formatter of older releases: `a7292b0: `
+const ENTRY_PREFIX =
+  /^(?:(?:\[#(\d+)\]\([^)]*\)\s*)?(?:\[`([0-9a-f]+)`\]\([^)]*\)\s*)?(?:Thanks \[@[^\]]+\]\([^)]*\)!\s*)?-\s+|([0-9a-f]{7,40}):\s+)/;
+
+// Every other package is released against a version of core, so core versions identify a Mastra release
+export const CORE_PACKAGE = '@mastra/core';
+
+export type ChangeType = 'major' | 'minor' | 'patch';
+
+export const CHANGE_TYPES: ChangeType[] = ['major', 'minor', 'patch'];
+
+// What an entry means for code upgrading past it
+export type ChangeNotice = 'breaking' | 'removal' | 'deprecation';
+
+export const CHANGE_NOTICES: ChangeNotice[] = ['breaking', 'removal', 'deprecation'];
+
+const BREAKING_KEYWORD = /(?<!non-|not |without )\bbreaking\b|\bmigration guide\b|\bmust now\b/i;
+// `Deperecate` is a typo that made it into the changelogs
+const DEPRECATION_KEYWORD = /(?<!\bremov(e|ed|es|ing|al of) )\bde(p|pe)recat(e|ed|es|ing|ion)s?\b/i;
+const REMOVAL_KEYWORD = /\b(remove[sd]?|removal of|drop(ped|s)?|delete[sd]?)\b/i;
+// Removals patches can't hide, as opposed to "remove duplicate messages" fixes
+const STRONG_REMOVAL_KEYWORD = /\bno longer (supported|available|exported|exists?)\b|\b(removed|dropped) support\b/i;
+
+export interface ChangelogEntry {
+  type: ChangeType;
+  // Breaking changes, removals and deprecations the entry announces, classified when parsing
+  notices: ChangeNotice[];
+  // Markdown of the entry without the pull request and commit links, nested lines included
+  summary: string;
+  pullRequest: number | null;
+  commit: string | null;
+}
+
+export interface ChangelogRelease {
+  version: string;
+  // Day the version heading was committed (`YYYY-MM-DD`), when the prepare step could read it from git
+  date: string | null;
+  entries: ChangelogEntry[];
+}
+
+export interface ChangelogIndex {
+  version: number;
+  // Package name → releases, newest first
+  packages: Record<string, ChangelogRelease[]>;
+}
+
+export interface PackageVersions {
+  // Newest version in the changelog, possibly a prerelease
+  latest: string;
+  // Newest version without a prerelease tag, if the changelog still contains one
+  latestStable: string | null;
+}
+
+/**
+ * Read the organized changelog of a package, or null when there is none
+ */
+export async function readChangelog(packageName: string): Promise<string | null> {
+  try {
+    return await fs.readFile(await resolveWithinRoot(changelogsDir, `${encodeURIComponent(packageName)}.md`), 'utf-8');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Versions listed in a changelog, newest first
+ */
+export function parseChangelogVersions(changelog: string): string[] {
+  return parseChangelog(changelog).map(release => release.version);
+}
+
+/**
+ * Current versions of a package according to its changelog, or null when it lists none
+ */
+export function getPackageVersions(changelog: string): PackageVersions | null {
+  const versions = parseChangelogVersions(changelog);
+  if (versions.length === 0) return null;
+  return { latest: versions[0], latestStable: versions.find(version => !version.includes('-')) ?? null };
+}
+
+/**
+ * The dist-tag prereleases of a version are published under, like `alpha` for `0.15.3-alpha.9`
+ */
+export function getPrereleaseTag(version: string): string | null {
+  return version.match(/-([a-z]+)/i)?.[1] ?? null;
+}
+
+// Helper function to split a version into comparable parts, or null when it isn't one
+function parseVersion(version: string): { core: number[]; prerelease: string[] } | null {
+  const match = version.trim().match(VERSION);
+  if (!match) return null;
+  return { core: match.slice(1, 4).map(Number), prerelease: match[4] ? match[4].split('.') : [] };
+}
+
+/**
+ * Whether `version` is a valid `major.minor.patch` version, with an optional prerelease tag
+ */
+export function isValidVersion(version: string): boolean {
+  return parseVersion(version) !== null;
+}
+
+/**
+ * Compare two versions by semver precedence: negative when `a` is older, positive when it is newer
+ */
+export function compareVersions(a: string, b: string): number {
+  const left = parseVersion(a);
+  const right = parseVersion(b);
+  if (!left || !right) return a.localeCompare(b);
+
+  for (let i = 0; i < 3; i++) {
+    if (left.core[i] !== right.core[i]) return left.core[i] - right.core[i];
+  }
+  // A prerelease comes before the release it leads up to
+  if (left.prerelease.length === 0 || right.prerelease.length === 0) {
+    return right.prerelease.length - left.prerelease.length;
+  }
+  for (let i = 0; i < Math.min(left.prerelease.length, right.prerelease.length); i++) {
+    const [x, y] = [left.prerelease[i], right.prerelease[i]];
+    if (x === y) continue;
+    const numeric = /^\d+$/.test(x) && /^\d+$/.test(y);
+    return numeric ? Number(x) - Number(y) : x.localeCompare(y);
+  }
+  return left.prerelease.length - right.prerelease.length;
+}
+
+/**
+ * Classify a changeset entry: major bumps and "breaking" keywords and headings in the entry are breaking
+ * changes. Minor bumps of `0.x` packages only count when the entry says so, as nearly every Mastra package is
+ * still `0.x` and most of its minors are features. Removals count in breaking and minor changes, or in
+ * patches when they are spelled out; deprecations are recognized by keyword.
+ */
+export function classifyEntry(type: ChangeType, summary: string): ChangeNotice[] {
+  const notices: ChangeNotice[] = [];
+  const breaking = type === 'major' || BREAKING_KEYWORD.test(summary);
+  if (breaking) notices.push('breaking');
+  if (
+    ((breaking || type === 'minor') && REMOVAL_KEYWORD.test(summary.split('\n')[0])) ||
+    STRONG_REMOVAL_KEYWORD.test(summary)
+  ) {
+    notices.push('removal');
+  }
+  if (DEPRECATION_KEYWORD.test(summary)) notices.push('deprecation');
+  return notices;
+}
+
+// Helper function to turn the lines of a changeset entry into its summary and links
+function toEntry(type: ChangeType, lines: string[]): ChangelogEntry {
+  const first = lines[0].replace(/^[-*]\s+/, '');
+  const prefix = first.match(ENTRY_PREFIX);
+  const summary = [
+    prefix ? first.slice(prefix[0].length) : first,
+    ...lines.slice(1).map(line => line.replace(/^ {2}/, '')),
+  ]
+    .join('\n')
+    .trim()
+    // The commits behind dependency updates add nothing to the versions listed below them
+    .replace(/^Updated dependencies \[.*?\]\]?:/, 'Updated dependencies:');
+  return {
+    type,
+    notices: isDependencyUpdate({ summary }) ? [] : classifyEntry(type, summary),
+    summary,
+    pullRequest: prefix?.[1] ? Number(prefix[1]) : null,
+    commit: prefix?.[2] ?? prefix?.[3] ?? null,
+  };
+}
+
+/**
+ * Parse a changesets `CHANGELOG.md` into releases, newest first, each with its entries
+ * tagged by the "Major/Minor/Patch Changes" heading they are listed under
+ */
+export function parseChangelog(changelog: string): ChangelogRelease[] {
+  const releases: ChangelogRelease[] = [];
+  let release: ChangelogRelease | null = null;
+  // Entries listed before any change type heading are treated as patches
+  let type: ChangeType = 'patch';
+  let entry: string[] | null = null;
+
+  const flush = () => {
+    if (release && entry) release.entries.push(toEntry(type, entry));
+    entry = null;
+  };
+
+  for (const line of changelog.split('\n')) {
+    const versionMatch = line.match(VERSION_HEADING);
+    if (versionMatch) {
+      flush();
+      release = { version: versionMatch[1], date: null, entries: [] };
+      releases.push(release);
+      type = 'patch';
+      continue;
+    }
+    const typeMatch = line.match(/^###\s+(Major|Minor|Patch)\s+Changes/i);
+    if (typeMatch) {
+      flush();
+      type = typeMatch[1].toLowerCase() as ChangeType;
+      continue;
+    }
+    if (!release) continue;
+
+    if (/^[-*]\s+/.test(line)) {
+      flush();
+      entry = [line];
+    } else if (entry && (/^\s+\S/.test(line) || line.trim() === '')) {
+      entry.push(line);
+    } else if (line.trim() !== '') {
+      flush();
+    }
+  }
+  flush();
+  return releases;
+}
+
+/**
+ * Parse the organized changelogs in `dir` (`<encoded package name>.md`) into an index
+ */
+export async function buildChangelogIndex(dir: string = changelogsDir): Promise<ChangelogIndex> {
+  const packages: Record<string, ChangelogRelease[]> = {};
+  let files: string[] = [];
+  try {
+    files = await fs.readdir(dir);
+  } catch {
+    // No changelogs prepared yet
+  }
+  for (const file of files.filter(file => file.endsWith('.md')).sort()) {
+    packages[decodeURIComponent(file.replace(/\.md$/, ''))] = parseChangelog(
+      await fs.readFile(path.join(dir, file), 'utf-8'),
+    );
+  }
+  return { version: CHANGELOG_INDEX_VERSION, packages };
+}
+
+let changelogIndexCache: Promise<ChangelogIndex> | null = null;
+
+/**
+ * Changelog index from the prepare step, or parsed once from the organized changelogs when it is missing or stale
+ */
+export function getChangelogIndex(): Promise<ChangelogIndex> {
+  changelogIndexCache ??= readChangelogIndex(fromPackageRoot('.docs/changelog-index.json'))
+    .then(persisted => persisted ?? buildChangelogIndex())
+    .catch(error => {
+      changelogIndexCache = null;
+      throw error;
+    });
+  return changelogIndexCache;
+}
+
+/**
+ * Read a persisted changelog index, returning null when it is missing or was built by an incompatible version
+ */
+export async function readChangelogIndex(indexPath: string): Promise<ChangelogIndex | null> {
+  try {
+    const index = JSON.parse(await fs.readFile(indexPath, 'utf-8')) as ChangelogIndex;
+    return index.version === CHANGELOG_INDEX_VERSION ? index : null;
+  } catch {
+    return null;
+  }
+}
+
+export interface ReleaseRange {
+  // Versions after `since` (exclusive) up to `until` (inclusive)
+  since?: string;
+  until?: string;
+  // Release days (`YYYY-MM-DD`), both inclusive
+  sinceDate?: string;
+  untilDate?: string;
+  includePrereleases?: boolean;
+}
+
+/**
+ * Releases within `range`, newest first. Version bounds apply to `boundVersions` when given, like the core
+ * version each release was published against, and to the release versions otherwise. Prereleases are left out
+ * unless asked for, or a version bound is a prerelease itself, since a release repeats the entries of its
+ * prereleases. Releases without a known date are left out of date ranges.
+ */
+export function selectReleases(
+  releases: ChangelogRelease[],
+  { since, until, sinceDate, untilDate, includePrereleases }: ReleaseRange,
+  boundVersions: Array<string | null> = releases.map(release => release.version),
+): ChangelogRelease[] {
+  const withPrereleases = includePrereleases ?? [since, until].some(bound => bound?.includes('-'));
+  return releases.filter((release, i) => {
+    if (!withPrereleases && release.version.includes('-')) return false;
+    if (since || until) {
+      const version = boundVersions[i];
+      if (!version) return false;
+      if (since && compareVersions(version, since) <= 0) return false;
+      if (until && compareVersions(version, until) > 0) return false;
+    }
+    if (sinceDate || untilDate) {
+      const { date } = release;
+      if (!date) return false;
+      if (sinceDate && date < sinceDate) return false;
+      if (untilDate && date > untilDate) return false;
+    }
+    return true;
+  });
+}
+
+/**
+ * Whether an entry only lists dependency version bumps
+ */
+export function isDependencyUpdate(entry: Pick<ChangelogEntry, 'summary'>): boolean {
+  return /^(Updated dependenc(y|ies)\b|dependencies updates:)/i.test(entry.summary);
+}
+
+/**
+ * Whether an entry may require code changes when upgrading
+ */
+export function isBreakingChange(entry: ChangelogEntry): boolean {
+  return entry.notices.includes('breaking') || entry.notices.includes('removal');
+}
+
+/**
+ * The core version each release was published against, newest release first like `releases`.
+ * Releases that don't update core keep the version of the release before them; null before the first update.
+ */
+export function getCoreVersions(releases: ChangelogRelease[]): Array<string | null> {
+  const coreVersions: Array<string | null> = new Array(releases.length).fill(null);
+  let current: string | null = null;
+  for (let i = releases.length - 1; i >= 0; i--) {
+    for (const entry of releases[i].entries) {
+      const match = entry.summary.match(/@mastra\/core@(\d+\.\d+\.\d+(?:-[\w.]+)?)/);
+      if (match) current = match[1];
+    }
+    coreVersions[i] = current;
+  }
+  return coreVersions;
+}
+
+/**
+ * Order packages for reports: core first, the rest alphabetically
+ */
+export function sortPackageNames(names: string[]): string[] {
+  return [...names].sort((a, b) => (a === CORE_PACKAGE ? -1 : b === CORE_PACKAGE ? 1 : a.localeCompare(b)));
+}
+
+/**
+ * Format an entry as a list item with the version that introduced it
+ */
+export function formatChangelogEntry(
+  release: ChangelogRelease,
+  entry: ChangelogEntry,
+  { firstLineOnly = false, checkbox = false, labels = [] as string[] } = {},
+): string {
+  const summary = firstLineOnly ? entry.summary.split('\n')[0] : entry.summary.replace(/\n/g, '\n  ');
+  return [
+    checkbox ? '- [ ]' : '-',
+    `**${release.version}**`,
+    ...(labels.length > 0 ? [`(${labels.join(', ')})`] : []),
+    `${summary}${entry.pullRequest ? ` (#${entry.pullRequest})` : ''}`,
+  ].join(' ');
+}
@@ -0,0 +1,131 @@
+import path from 'node:path';
+
+export const DOCS_SITE_URL = 'https://mastra.ai';
+
+// Locale prefix of docs site URLs, internal links may or may not include it
+const SITE_LOCALE = 'en';
+
+const FENCE = /^[ \t]*(`{3,}|~{3,})/;
+
+// Markdown links, but not images: `[text](target "title")`
+const LINK = /(?<!!)\[((?:[^[\]]|\[[^\]]*\])*)\]\(\s*<?([^)\s>]+)>?(\s+"[^"]*")?\s*\)/g;
+
+/**
+ * Where the source of a tool path lives in the docs site content tree: guides are below `docs/`
+ * and the API reference below `reference/`. Course lessons aren't part of the docs site.
+ */
+function toSourcePath(docPath: string): string | null {
+  if (docPath === 'course' || docPath.startsWith('course/')) return null;
+  if (docPath === 'reference' || docPath.startsWith('reference/')) return docPath;
+  return path.posix.join('docs', docPath);
+}
+
+// Site URLs drop the extension and serve `index` pages at their directory
+function toSitePath(docPath: string): string | null {
+  const sourcePath = toSourcePath(docPath);
+  return sourcePath === null ? null : sourcePath.replace(/\.mdx$/, '').replace(/\/index$/, '');
+}
+
+/**
+ * Public URL of a docs page, or null for pages that aren't published on the docs site
+ */
+export function getCanonicalUrl(docPath: string): string | null {
+  const sitePath = toSitePath(docPath);
+  return sitePath === null ? null : `${DOCS_SITE_URL}/${SITE_LOCALE}/${sitePath}`;
+}
+
+/**
+ * Resolve a link target found in `docPath` to a path relative to the locale root of the docs site,
+ * or null when it points outside the docs site
+ */
+function resolveSitePath(target: string, docPath: string): string | null {
+  let sitePath: string;
+  if (target.startsWith(`${DOCS_SITE_URL}/`)) {
+    sitePath = target.slice(DOCS_SITE_URL.length);
+  } else if (target.startsWith('/')) {
+    sitePath = target;
+  } else if (/^[a-z][a-z\d+.-]*:/i.test(target)) {
+    return null;
+  } else {
+    // Relative links resolve against the page's location in the docs source tree, which mirrors the site
+    const sourcePath = toSourcePath(docPath);
+    if (sourcePath === null) return null;
+    sitePath = path.posix.join('/', path.posix.dirname(sourcePath), target);
+  }
+  return path.posix
+    .normalize(sitePath)
+    .replace(new RegExp(`^/(${SITE_LOCALE}/)?`), '')
+    .replace(/\/$/, '');
+}
+
+// Inverse of `toSitePath`, without the extension. Null for site sections the docs tool doesn't serve.
+function toToolPath(sitePath: string): string | null {
+  if (sitePath === 'docs') return '';
+  if (sitePath.startsWith('docs/')) return sitePath.slice('docs/'.length);
+  if (sitePath === 'reference' || sitePath.startsWith('reference/')) return sitePath;
+  return null;
+}
+
+/**
+ * Map a docs site URL (`https://mastra.ai/en/docs/agents/overview`, `/reference/rag/chunk`) to the docs path
+ * serving it, without extension. Null for URLs outside the sections the docs tool serves.
+ */
+export function siteUrlToDocPath(url: string): string | null {
+  const sitePath = resolveSitePath(url.replace(/[?#].*$/, ''), '');
+  return sitePath === null ? null : toToolPath(sitePath.replace(/\.mdx$/, ''));
+}
+
+/**
+ * Rewrite internal links of a page so they point at paths `mastraDocs` accepts (`agents/overview.mdx#anchor`).
+ * Internal links to pages that aren't part of the served docs (examples, showcase, images) become absolute
+ * docs site URLs. `resolvePage` maps a candidate path without extension to the tool path that exists, if any.
+ * Code blocks and inline code are left untouched.
+ */
+export function rewriteDocLinks(
+  content: string,
+  docPath: string,
+  resolvePage: (candidate: string) => string | null,
+): string {
+  const rewriteTarget = (target: string): string => {
+    const hashIndex = target.indexOf('#');
+    const location = hashIndex === -1 ? target : target.slice(0, hashIndex);
+    const anchor = hashIndex === -1 ? '' : target.slice(hashIndex);
+
+    // In-page anchors become `path#anchor` so the section can be fetched directly
+    if (!location) return anchor ? `${docPath}${anchor}` : target;
+
+    const sitePath = resolveSitePath(location.replace(/\?.*$/, ''), docPath);
+    if (sitePath === null) return target;
+
+    const toolPath = toToolPath(sitePath);
+    const resolved = toolPath === null ? null : resolvePage(toolPath.replace(/\.mdx$/, ''));
+    if (resolved !== null) return `${resolved}${anchor}`;
+
+    // Other site pages keep their URL, made absolute so it can be cited
+    if (location.startsWith(DOCS_SITE_URL)) return target;
+    if (location.startsWith('/')) return `${DOCS_SITE_URL}${target}`;
+    return `${DOCS_SITE_URL}/${SITE_LOCALE}/${sitePath.replace(/\.mdx$/, '')}${anchor}`;
+  };
+
+  let fence: string | null = null;
+  return content
+    .split('\n')
+    .map(line => {
+      const fenceMatch = line.match(FENCE);
+      if (fenceMatch) {
+        if (!fence) fence = fenceMatch[1][0];
+        else if (fence === fenceMatch[1][0]) fence = null;
+        return line;
+      }
+      if (fence) return line;
+
+      // Links that start inside inline code are code samples, not links
+      const codeSpans = Array.from(line.matchAll(/`[^`]*`/g), match => [match.index, match.index + match[0].length]);
+      return line.replace(LINK, (match, text: string, target: string, title: string | undefined, offset: number) =>
+        codeSpans.some(([start, end]) => offset > start && offset < end)
+          ? match
+          : `[${text}](${rewriteTarget(target)}${title ?? ''})`,
+      );
+    })
+    .join('\n');
+}
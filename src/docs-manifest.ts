@@ -0,0 +1,122 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { extractHeadings, parseFrontmatter } from './mdx';
+import { parseLiteral, skipExpression } from './mdx-to-markdown';
+
+// Bump whenever the manifest layout changes so stale manifests are rebuilt
+export const DOCS_MANIFEST_VERSION = 2;
+
+export interface DocsPage {
+  title: string;
+  description: string;
+}
+
+export interface NavigationEntry {
+  // File name without `.mdx`, or directory name
+  name: string;
+  // Sidebar label, empty when the meta file doesn't set one
+  title: string;
+}
+
+export interface DocsManifest {
+  version: number;
+  // Keyed by path relative to the docs directory, using forward slashes
+  pages: Record<string, DocsPage>;
+  // Sidebar order of each directory that has a `_meta` file, keyed by directory path ('' for the root)
+  navigation: Record<string, NavigationEntry[]>;
+}
+
+// Page titles end with the section and site name (`Overview | Agents | Mastra Docs`), which a listing already shows
+function cleanTitle(title: string): string {
+  return title.split(' | ')[0].trim();
+}
+
+/**
+ * Read the sidebar order out of a docs site `_meta` file. These are small modules exporting an object
+ * whose keys are page or directory names and whose values are a label or `{ title, type, ... }`.
+ */
+function parseMetaFile(source: string): NavigationEntry[] | null {
+  const objectStart = source.search(/(?:export\s+default|=)\s*\{/);
+  if (objectStart === -1) return null;
+  const start = source.indexOf('{', objectStart);
+  const end = skipExpression(source, start);
+  if (end === -1) return null;
+
+  const meta = parseLiteral(source.slice(start, end));
+  if (!meta || typeof meta !== 'object') return null;
+
+  return Object.entries(meta as Record<string, unknown>).flatMap(([name, value]) => {
+    const options = value && typeof value === 'object' ? (value as Record<string, unknown>) : {};
+    // Separators and the `*` defaults entry aren't pages
+    if (name === '*' || name.startsWith('---') || options.type === 'separator') return [];
+    const title = typeof value === 'string' ? value : typeof options.title === 'string' ? options.title : '';
+    return [{ name, title }];
+  });
+}
+
+async function collectDirectory(baseDir: string, dir: string, manifest: DocsManifest): Promise<void> {
+  const entries = await fs.readdir(dir, { withFileTypes: true });
+  const relativeDir = path.relative(baseDir, dir).replace(/\\/g, '/');
+
+  for (const entry of entries) {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      await collectDirectory(baseDir, fullPath, manifest);
+    } else if (entry.isFile() && entry.name.endsWith('.mdx')) {
+      const content = await fs.readFile(fullPath, 'utf-8');
+      const { data, body } = parseFrontmatter(content);
+      const title = data.title || extractHeadings(body).find(heading => heading.depth === 1)?.text || '';
+      manifest.pages[path.posix.join(relativeDir, entry.name)] = {
+        title: cleanTitle(title),
+        description: data.description ?? '',
+      };
+    } else if (entry.isFile() && entry.name.startsWith('_meta.')) {
+      const navigation = parseMetaFile(await fs.readFile(fullPath, 'utf-8'));
+      if (navigation) manifest.navigation[relativeDir] = navigation;
+    }
+  }
+}
+
+/**
+ * Collect the frontmatter title and description of every page below `baseDir`, and the sidebar order from `_meta` files
+ */
+export async function buildDocsManifest(baseDir: string): Promise<DocsManifest> {
+  const manifest: DocsManifest = { version: DOCS_MANIFEST_VERSION, pages: {}, navigation: {} };
+  await collectDirectory(baseDir, baseDir, manifest);
+  return manifest;
+}
+
+/**
+ * Read a persisted manifest, returning null when it is missing or was built by an incompatible version
+ */
+export async function readDocsManifest(manifestPath: string): Promise<DocsManifest | null> {
+  try {
+    const manifest = JSON.parse(await fs.readFile(manifestPath, 'utf-8')) as DocsManifest;
+    return manifest.version === DOCS_MANIFEST_VERSION ? manifest : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Sort directory entries (`name.mdx` files and `name/` directories) in sidebar order.
+ * Entries the sidebar doesn't mention follow alphabetically, as do all entries of directories without a `_meta` file.
+ */
+export function sortByNavigation(manifest: DocsManifest, dirPath: string, entries: string[]): string[] {
+  const navigation = manifest.navigation[dirPath.replace(/^\/+|\/+$/g, '')] ?? [];
+  const position = (entry: string) => {
+    const index = navigation.findIndex(item => item.name === entry.replace(/(\.mdx|\/)$/, ''));
+    return index === -1 ? navigation.length : index;
+  };
+  return [...entries].sort().sort((a, b) => position(a) - position(b));
+}
+
+/**
+ * Sidebar label of a directory, as set in its parent's `_meta` file
+ */
+export function getNavigationTitle(manifest: DocsManifest, dirPath: string): string {
+  const normalized = dirPath.replace(/^\/+|\/+$/g, '');
+  const parent = path.posix.dirname(normalized);
+  const entries = manifest.navigation[parent === '.' ? '' : parent] ?? [];
+  return entries.find(entry => entry.name === path.posix.basename(normalized))?.title ?? '';
+}
@@ -0,0 +1,81 @@
+import fs from 'node:fs/promises';
+import { siteUrlToDocPath } from './docs-links';
+
+// Bump whenever the redirect map layout changes so stale maps are regenerated
+export const REDIRECT_MAP_VERSION = 1;
+
+// Redirect chains longer than this are treated as loops
+const MAX_REDIRECTS = 5;
+
+export interface RedirectMap {
+  version: number;
+  // Old docs path → new docs path, both lowercase and without extension
+  redirects: Record<string, string>;
+  // Same for whole moved directories (`/old/:path*` → `/new/:path*`), keyed by directory path
+  prefixRedirects: Record<string, string>;
+}
+
+const REDIRECT_ENTRY = /source:\s*(['"`])([^'"`]+)\1\s*,\s*destination:\s*(['"`])([^'"`]+)\3/g;
+
+// Redirect sources may match any locale
+function stripLocaleParameter(url: string): string {
+  return url.replace(/^\/:(locale|lang)\b/, '');
+}
+
+/**
+ * Extract `{ source, destination }` redirect rules from the docs site's Next.js config
+ * and keep the ones between pages served by the docs tool
+ */
+export function parseRedirects(source: string): RedirectMap {
+  const map: RedirectMap = { version: REDIRECT_MAP_VERSION, redirects: {}, prefixRedirects: {} };
+
+  for (const [, , from, , to] of source.matchAll(REDIRECT_ENTRY)) {
+    const wildcard = /\/:path\*$/;
+    const isPrefix = wildcard.test(from) && wildcard.test(to);
+    const fromPath = siteUrlToDocPath(stripLocaleParameter(from).replace(wildcard, ''));
+    const toPath = siteUrlToDocPath(stripLocaleParameter(to).replace(wildcard, ''));
+    // Rules with other parameters or outside the served docs can't be applied to docs paths
+    if (fromPath === null || toPath === null || /[:*]/.test(fromPath + toPath)) continue;
+    if (isPrefix) map.prefixRedirects[fromPath.toLowerCase()] = toPath;
+    else map.redirects[fromPath.toLowerCase()] = toPath;
+  }
+
+  return map;
+}
+
+/**
+ * Read a persisted redirect map, returning null when it is missing or was built by an incompatible version
+ */
+export async function readRedirectMap(mapPath: string): Promise<RedirectMap | null> {
+  try {
+    const map = JSON.parse(await fs.readFile(mapPath, 'utf-8')) as RedirectMap;
+    return map.version === REDIRECT_MAP_VERSION ? map : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Follow redirects for a docs path without extension. `exists` tells whether a path is served,
+ * so a chain stops as soon as it reaches an existing page. Returns null when no redirect applies.
+ */
+export function followRedirects(
+  map: RedirectMap,
+  docPath: string,
+  exists: (docPath: string) => boolean,
+): string | null {
+  let current = docPath.toLowerCase();
+  for (let hops = 0; hops < MAX_REDIRECTS; hops++) {
+    let next = Object.hasOwn(map.redirects, current) ? map.redirects[current] : undefined;
+    if (next === undefined) {
+      const prefix = Object.keys(map.prefixRedirects)
+        .filter(from => current.startsWith(`${from}/`))
+        .sort((a, b) => b.length - a.length)[0];
+      if (prefix !== undefined) next = map.prefixRedirects[prefix] + current.slice(prefix.length);
+    }
+    if (next === undefined) return null;
+    if (exists(next)) return next;
+    current = next.toLowerCase();
+  }
+  return null;
+}
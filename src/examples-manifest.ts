@@ -0,0 +1,149 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { findMastraImports } from './symbol-index';
+import { fromPackageRoot } from './utils';
+
+const examplesDir = fromPackageRoot('.docs/organized/code-examples');
+
+// Bump whenever the manifest layout changes so stale manifests are rebuilt
+export const EXAMPLES_MANIFEST_VERSION = 2;
+
+export interface ExampleFile {
+  // Path relative to the example's `src` directory, or `package.json`
+  path: string;
+  // Code fence language, empty when the prepare step didn't know the file type
+  language: string;
+  // Line of the flattened example (0-based) where the file's content starts
+  startLine: number;
+  lines: number;
+}
+
+export interface ExampleEntry {
+  files: ExampleFile[];
+  // Packages the example's package.json depends on, dev dependencies included
+  dependencies: string[];
+  // `@mastra/*` module → names the example imports from it
+  imports: Record<string, string[]>;
+  // First paragraph of the example's README or its package.json description, when the prepare step found one
+  summary: string | null;
+}
+
+export interface ExamplesManifest {
+  version: number;
+  // Keyed by example name, the flattened file name without `.md`
+  examples: Record<string, ExampleEntry>;
+}
+
+/**
+ * Find the files of a flattened example: `### path` headings, each followed by a fenced code block.
+ * A heading only starts a file at the top of the example or right after the previous file's closing fence,
+ * so `###` lines inside the code don't split it.
+ */
+export function parseExampleFiles(markdown: string): ExampleFile[] {
+  const lines = markdown.split('\n');
+  const files: ExampleFile[] = [];
+  // A file's content ends right before its closing fence
+  const closeFile = (closingFence: number) => {
+    const previous = files.at(-1);
+    if (previous) previous.lines = Math.max(closingFence - previous.startLine, 0);
+  };
+  for (let i = 0; i < lines.length; i++) {
+    const heading = lines[i].match(/^### (\S.*)$/);
+    const opening = lines[i + 1]?.match(/^```(\w*)$/);
+    const startsFile = i === 0 || (lines[i - 1] === '' && lines[i - 2] === '```');
+    if (heading && opening && startsFile) {
+      closeFile(i - 2);
+      files.push({ path: heading[1].trim(), language: opening[1], startLine: i + 2, lines: 0 });
+      i++;
+    }
+  }
+  closeFile(lines.lastIndexOf('```'));
+  return files;
+}
+
+// Helper function to read the dependencies and `@mastra/*` imports out of the files of an example
+function analyzeExample(markdown: string, files: ExampleFile[]): Pick<ExampleEntry, 'dependencies' | 'imports'> {
+  const lines = markdown.split('\n');
+  const dependencies = new Set<string>();
+  const imports: Record<string, Set<string>> = {};
+  for (const file of files) {
+    const content = lines.slice(file.startLine, file.startLine + file.lines).join('\n');
+    if (file.path === 'package.json') {
+      try {
+        const packageJson = JSON.parse(content);
+        for (const field of ['dependencies', 'devDependencies']) {
+          Object.keys(packageJson[field] ?? {}).forEach(name => dependencies.add(name));
+        }
+      } catch {
+        // Not valid JSON, the example lists no dependencies
+      }
+      continue;
+    }
+    for (const [name, module] of findMastraImports(content)) {
+      (imports[module] ??= new Set()).add(name);
+    }
+  }
+  return {
+    dependencies: Array.from(dependencies).sort(),
+    imports: Object.fromEntries(
+      Object.keys(imports)
+        .sort()
+        .map(module => [module, Array.from(imports[module]).sort()]),
+    ),
+  };
+}
+
+/**
+ * Parse the flattened examples in `dir` (`<example name>.md`) into a manifest of their files, dependencies
+ * and imports. Summaries come from the example sources, which only the prepare step can read.
+ */
+export async function buildExamplesManifest(
+  dir: string = examplesDir,
+  summaries: Record<string, string> = {},
+): Promise<ExamplesManifest> {
+  const examples: Record<string, ExampleEntry> = {};
+  let files: string[] = [];
+  try {
+    files = await fs.readdir(dir);
+  } catch {
+    // No examples prepared yet
+  }
+  for (const file of files.filter(file => file.endsWith('.md')).sort()) {
+    const name = file.replace(/\.md$/, '');
+    const markdown = await fs.readFile(path.join(dir, file), 'utf-8');
+    const files = parseExampleFiles(markdown);
+    examples[name] = {
+      files,
+      ...analyzeExample(markdown, files),
+      summary: Object.hasOwn(summaries, name) ? summaries[name] : null,
+    };
+  }
+  return { version: EXAMPLES_MANIFEST_VERSION, examples };
+}
+
+/**
+ * Read a persisted examples manifest, returning null when it is missing or was built by an incompatible version
+ */
+export async function readExamplesManifest(manifestPath: string): Promise<ExamplesManifest | null> {
+  try {
+    const manifest = JSON.parse(await fs.readFile(manifestPath, 'utf-8')) as ExamplesManifest;
+    return manifest.version === EXAMPLES_MANIFEST_VERSION ? manifest : null;
+  } catch {
+    return null;
+  }
+}
+
+let examplesManifestCache: Promise<ExamplesManifest> | null = null;
+
+/**
+ * Examples manifest from the prepare step, or parsed once from the flattened examples when it is missing or stale
+ */
+export function getExamplesManifest(): Promise<ExamplesManifest> {
+  examplesManifestCache ??= readExamplesManifest(fromPackageRoot('.docs/examples-manifest.json'))
+    .then(persisted => persisted ?? buildExamplesManifest())
+    .catch(error => {
+      examplesManifestCache = null;
+      throw error;
+    });
+  return examplesManifestCache;
+}
@@ -3,7 +3,9 @@ import { MCPServer } from '@mastra/mcp';
 
 import { logger, createLogger } from './logger';
 import { prepare } from './prepare-docs/prepare';
+import { apiTool } from './tools/api';
 import { blogTool } from './tools/blog';
+import { catalogTool } from './tools/catalog';
 import { changesTool } from './tools/changes';
 import {
   startMastraCourse,
@@ -14,6 +16,9 @@ import {
 } from './tools/course';
 import { docsTool } from './tools/docs';
 import { examplesTool } from './tools/examples';
+import { installTool } from './tools/install';
+import { searchTool } from './tools/search';
+import { upgradeTool } from './tools/upgrade';
 import { fromPackageRoot } from './utils';
 
 let server: MCPServer;
@@ -36,6 +41,11 @@ server = new MCPServer({
     mastraDocs: docsTool,
     mastraExamples: examplesTool,
     mastraChanges: changesTool,
+    mastraSearch: searchTool,
+    mastraApi: apiTool,
+    mastraInstall: installTool,
+    mastraUpgrade: upgradeTool,
+    mastraCatalog: catalogTool,
     startMastraCourse,
     getMastraCourseStatus,
     startMastraCourseLesson,
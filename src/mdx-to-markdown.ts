@@ -0,0 +1,502 @@
+import { parseFrontmatter } from './mdx';
+
+interface JsxElement {
+  name: string;
+  // Attribute values: strings for quoted attributes, parsed values for `{...}` literals
+  // (undefined when the expression isn't a plain literal) and true for bare attributes
+  props: Record<string, unknown>;
+  // Source between the opening and closing tags, null for self-closing elements
+  children: string | null;
+  start: number;
+  end: number;
+}
+
+export interface PropertyDefinition {
+  name?: string;
+  type?: string;
+  description?: string;
+  isOptional?: boolean;
+  defaultValue?: unknown;
+  properties?: Array<{ type?: string; parameters?: PropertyDefinition[] }>;
+}
+
+export interface PropertiesTable {
+  // 1-based line of the opening tag
+  line: number;
+  properties: PropertyDefinition[];
+}
+
+interface RenderContext {
+  tabLabels: string[];
+  tabIndex: number;
+  fileTreeDepth: number;
+}
+
+const CALLOUT_LABELS: Record<string, string> = {
+  info: 'Note',
+  default: 'Note',
+  warning: 'Warning',
+  error: 'Important',
+};
+
+const FENCE = /^[ \t]*(`{3,}|~{3,})/;
+
+// Characters behind the single-letter string escapes, like `\n`
+const ESCAPES: Record<string, string> = { n: '\n', r: '\r', t: '\t', b: '\b', f: '\f', v: '\v', 0: '\0' };
+
+/**
+ * Parse a JavaScript literal from MDX attributes or a `_meta` file, such as a `PropertiesTable` content array:
+ * objects, arrays, strings, numbers, booleans, null and undefined, with comments and trailing commas.
+ * The source is never run, so anything else (calls, variables, JSX, template placeholders) yields undefined.
+ */
+export function parseLiteral(source: string): unknown {
+  let index = 0;
+  const fail = (): never => {
+    throw new SyntaxError(`Unsupported expression at ${index}`);
+  };
+
+  const skipWhitespace = () => {
+    while (index < source.length) {
+      if (/\s/.test(source[index])) {
+        index++;
+      } else if (source.startsWith('//', index)) {
+        const lineEnd = source.indexOf('\n', index);
+        index = lineEnd === -1 ? source.length : lineEnd + 1;
+      } else if (source.startsWith('/*', index)) {
+        const commentEnd = source.indexOf('*/', index + 2);
+        if (commentEnd === -1) fail();
+        index = commentEnd + 2;
+      } else {
+        return;
+      }
+    }
+  };
+
+  // Step over the comma after an entry, trailing commas included, stopping at the next entry or `close`
+  const skipSeparator = (close: string) => {
+    skipWhitespace();
+    if (source[index] === ',') {
+      index++;
+      skipWhitespace();
+    } else if (source[index] !== close) {
+      fail();
+    }
+  };
+
+  const parseString = (): string => {
+    const quote = source[index++];
+    let value = '';
+    while (index < source.length) {
+      const char = source[index++];
+      if (char === quote) return value;
+      // Template literals are only plain strings without placeholders
+      if (quote === '`' && char === '$' && source[index] === '{') fail();
+      if (char !== '\\') {
+        value += char;
+        continue;
+      }
+      const escaped = source[index++];
+      if (escaped === 'u' || escaped === 'x') {
+        const hex = source.slice(index).match(escaped === 'u' ? /^(?:[\da-f]{4}|\{[\da-f]+\})/i : /^[\da-f]{2}/i);
+        if (!hex) return fail();
+        value += String.fromCodePoint(parseInt(hex[0].replace(/[{}]/g, ''), 16));
+        index += hex[0].length;
+      } else if (escaped !== '\n') {
+        // An escaped line break continues the string
+        value += ESCAPES[escaped] ?? escaped;
+      }
+    }
+    return fail();
+  };
+
+  const parseValue = (): unknown => {
+    skipWhitespace();
+    const char = source[index];
+    if (char === '"' || char === "'" || char === '`') return parseString();
+
+    if (char === '[') {
+      const array: unknown[] = [];
+      index++;
+      skipWhitespace();
+      while (source[index] !== ']') {
+        array.push(parseValue());
+        skipSeparator(']');
+      }
+      index++;
+      return array;
+    }
+
+    if (char === '{') {
+      const object: Record<string, unknown> = {};
+      index++;
+      skipWhitespace();
+      while (source[index] !== '}') {
+        let key: string;
+        if (source[index] === '"' || source[index] === "'") {
+          key = parseString();
+        } else {
+          key = source.slice(index).match(/^[\w$]+/)?.[0] ?? fail();
+          index += key.length;
+        }
+        skipWhitespace();
+        if (source[index] !== ':') fail();
+        index++;
+        object[key] = parseValue();
+        skipSeparator('}');
+      }
+      index++;
+      return object;
+    }
+
+    const literal = source
+      .slice(index)
+      .match(/^(?:-?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?|(true|false|null|undefined)\b)/i);
+    if (!literal) return fail();
+    index += literal[0].length;
+    if (!literal[1]) return Number(literal[0]);
+    return { true: true, false: false, null: null, undefined: undefined }[literal[1]];
+  };
+
+  try {
+    const value = parseValue();
+    skipWhitespace();
+    return index < source.length ? undefined : value;
+  } catch {
+    return undefined;
+  }
+}
+
+function isLineStart(text: string, index: number): boolean {
+  return index === 0 || text[index - 1] === '\n';
+}
+
+// Index just past the end of the fenced code block starting at `start`
+function skipFence(text: string, start: number): number {
+  const opening = text.slice(start).match(FENCE)!;
+  const fenceChar = opening[1][0];
+  let lineEnd = text.indexOf('\n', start);
+  while (lineEnd !== -1) {
+    const nextLineEnd = text.indexOf('\n', lineEnd + 1);
+    const line = text.slice(lineEnd + 1, nextLineEnd === -1 ? text.length : nextLineEnd);
+    if (new RegExp(`^[ \\t]*\\${fenceChar}{${opening[1].length},}\\s*$`).test(line)) {
+      return nextLineEnd === -1 ? text.length : nextLineEnd + 1;
+    }
+    lineEnd = nextLineEnd;
+  }
+  return text.length;
+}
+
+/**
+ * Index just past the closing `}` of the balanced expression starting at `start`, or -1 if it isn't closed
+ */
+export function skipExpression(text: string, start: number): number {
+  let depth = 0;
+  let quote: string | null = null;
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === '\\') i++;
+      else if (char === quote) quote = null;
+    } else if (char === '"' || char === "'" || char === '`') {
+      quote = char;
+    } else if (char === '{') {
+      depth++;
+    } else if (char === '}') {
+      depth--;
+      if (depth === 0) return i + 1;
+    }
+  }
+  return -1;
+}
+
+// Parse the opening tag at `start`, returning its props and where it ends
+function parseOpeningTag(
+  text: string,
+  start: number,
+): { name: string; props: Record<string, unknown>; end: number; selfClosing: boolean } | null {
+  const nameMatch = text.slice(start).match(/^<([A-Z][\w.]*)/);
+  if (!nameMatch) return null;
+
+  const props: Record<string, unknown> = {};
+  let i = start + nameMatch[0].length;
+  while (i < text.length) {
+    while (/\s/.test(text[i] ?? '')) i++;
+    if (text.startsWith('/>', i)) return { name: nameMatch[1], props, end: i + 2, selfClosing: true };
+    if (text[i] === '>') return { name: nameMatch[1], props, end: i + 1, selfClosing: false };
+
+    const attributeMatch = text.slice(i).match(/^[\w:-]+/);
+    if (!attributeMatch) return null;
+    const attribute = attributeMatch[0];
+    i += attribute.length;
+
+    if (text[i] !== '=') {
+      props[attribute] = true;
+      continue;
+    }
+    i++;
+    if (text[i] === '"' || text[i] === "'") {
+      const close = text.indexOf(text[i], i + 1);
+      if (close === -1) return null;
+      props[attribute] = text.slice(i + 1, close);
+      i = close + 1;
+    } else if (text[i] === '{') {
+      const close = skipExpression(text, i);
+      if (close === -1) return null;
+      props[attribute] = parseLiteral(text.slice(i + 1, close - 1));
+      i = close;
+    } else {
+      return null;
+    }
+  }
+  return null;
+}
+
+// Find the `</name>` that closes an element whose children start at `from`
+function findClosingTag(text: string, from: number, name: string): { start: number; end: number } | null {
+  const closing = `</${name}>`;
+  let depth = 1;
+  let i = from;
+  while (i < text.length) {
+    if (isLineStart(text, i) && FENCE.test(text.slice(i, text.indexOf('\n', i) + 1 || text.length))) {
+      i = skipFence(text, i);
+      continue;
+    }
+    if (text.startsWith(closing, i)) {
+      depth--;
+      if (depth === 0) return { start: i, end: i + closing.length };
+      i += closing.length;
+      continue;
+    }
+    if (text.startsWith(`<${name}`, i) && /[\s/>]/.test(text[i + name.length + 1] ?? '')) {
+      const tag = parseOpeningTag(text, i);
+      if (tag && !tag.selfClosing) depth++;
+      i = tag ? tag.end : i + 1;
+      continue;
+    }
+    i++;
+  }
+  return null;
+}
+
+function nextJsxElement(text: string, from: number): JsxElement | null {
+  let i = from;
+  while (i < text.length) {
+    if (isLineStart(text, i) && FENCE.test(text.slice(i, text.indexOf('\n', i) + 1 || text.length))) {
+      i = skipFence(text, i);
+      continue;
+    }
+    if (text[i] === '`') {
+      const close = text.indexOf('`', i + 1);
+      const lineEnd = text.indexOf('\n', i);
+      i = close !== -1 && (lineEnd === -1 || close < lineEnd) ? close + 1 : i + 1;
+      continue;
+    }
+    if (text[i] === '<' && /[A-Z]/.test(text[i + 1] ?? '')) {
+      const tag = parseOpeningTag(text, i);
+      if (tag) {
+        if (tag.selfClosing) {
+          return { name: tag.name, props: tag.props, children: null, start: i, end: tag.end };
+        }
+        const closing = findClosingTag(text, tag.end, tag.name);
+        if (closing) {
+          return {
+            name: tag.name,
+            props: tag.props,
+            children: text.slice(tag.end, closing.start),
+            start: i,
+            end: closing.end,
+          };
+        }
+      }
+    }
+    i++;
+  }
+  return null;
+}
+
+// Remove the indentation shared by all non-empty lines, which JSX children usually have
+function dedent(text: string): string {
+  const lines = text.split('\n');
+  const indents = lines.filter(line => line.trim()).map(line => line.match(/^[ \t]*/)![0].length);
+  const minIndent = indents.length > 0 ? Math.min(...indents) : 0;
+  return lines.map(line => line.slice(minIndent)).join('\n');
+}
+
+function escapeTableCell(value: unknown): string {
+  if (value === undefined || value === null || value === '') return '';
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return text
+    .replace(/\s*\n\s*/g, ' ')
+    .replace(/\|/g, '\\|')
+    .trim();
+}
+
+/**
+ * Flatten `PropertiesTable` content, naming nested properties `parent.child`
+ */
+function flattenProperties(properties: PropertyDefinition[], prefix = ''): PropertyDefinition[] {
+  return properties.flatMap(property => {
+    const name = prefix && property.name ? `${prefix}.${property.name}` : (property.name ?? prefix);
+    const nested = (property.properties ?? []).flatMap(group => flattenProperties(group.parameters ?? [], name));
+    return [{ ...property, name }, ...nested];
+  });
+}
+
+/**
+ * Render `PropertiesTable` content as a markdown table, or null if it isn't a list of properties
+ */
+export function renderPropertiesTable(content: unknown): string | null {
+  if (!Array.isArray(content)) return null;
+  const rows = flattenProperties(content as PropertyDefinition[]).map(
+    property =>
+      `| ${[
+        property.name ? `\`${property.name}\`` : '',
+        property.type ? `\`${escapeTableCell(property.type)}\`` : '',
+        property.isOptional ? 'No' : 'Yes',
+        escapeTableCell(property.defaultValue),
+        escapeTableCell(property.description),
+      ].join(' | ')} |`,
+  );
+  return ['| Name | Type | Required | Default | Description |', '| --- | --- | --- | --- | --- |', ...rows].join('\n');
+}
+
+function renderElement(element: JsxElement, source: string, context: RenderContext): string {
+  const children = element.children === null ? '' : dedent(element.children).trim();
+  const renderChildren = (childContext: RenderContext = context) => renderJsx(children, childContext);
+
+  switch (element.name) {
+    case 'PropertiesTable':
+      return renderPropertiesTable(element.props.content) ?? source.slice(element.start, element.end);
+    case 'Tabs': {
+      const labels = Array.isArray(element.props.items) ? element.props.items.map(String) : [];
+      return renderChildren({ ...context, tabLabels: labels, tabIndex: 0 });
+    }
+    case 'Tab':
+    case 'Tabs.Tab': {
+      const label =
+        (typeof element.props.title === 'string' && element.props.title) ||
+        context.tabLabels[context.tabIndex] ||
+        `Option ${context.tabIndex + 1}`;
+      context.tabIndex++;
+      return `**${label}:**\n\n${renderChildren()}\n`;
+    }
+    case 'FileTree':
+      return renderChildren({ ...context, fileTreeDepth: 0 });
+    case 'FileTree.Folder':
+      return [
+        `${'  '.repeat(context.fileTreeDepth)}- ${element.props.name}/`,
+        renderChildren({ ...context, fileTreeDepth: context.fileTreeDepth + 1 }),
+      ]
+        .filter(Boolean)
+        .join('\n');
+    case 'FileTree.File':
+      return `${'  '.repeat(context.fileTreeDepth)}- ${element.props.name}`;
+  }
+
+  if (element.name.endsWith('Callout') && children) {
+    const type = typeof element.props.type === 'string' ? element.props.type : 'default';
+    const body = renderChildren();
+    return [`**${CALLOUT_LABELS[type] ?? 'Note'}:**`, '', ...body.split('\n')]
+      .map(line => `> ${line}`.trimEnd())
+      .join('\n');
+  }
+
+  // Layout components keep their content, purely visual ones (videos, images, promos) are dropped
+  return children ? renderChildren() : '';
+}
+
+function renderJsx(text: string, context: RenderContext): string {
+  let output = '';
+  let i = 0;
+  while (i < text.length) {
+    const element = nextJsxElement(text, i);
+    if (!element) {
+      output += text.slice(i);
+      break;
+    }
+    output += text.slice(i, element.start) + renderElement(element, text, context);
+    i = element.end;
+  }
+  return output;
+}
+
+/**
+ * Find every `PropertiesTable` outside code blocks, including ones nested in other components
+ */
+export function extractPropertiesTables(content: string): PropertiesTable[] {
+  const tables: PropertiesTable[] = [];
+  let i = 0;
+  while (i < content.length) {
+    if (isLineStart(content, i) && FENCE.test(content.slice(i, content.indexOf('\n', i) + 1 || content.length))) {
+      i = skipFence(content, i);
+      continue;
+    }
+    if (content.startsWith('<PropertiesTable', i)) {
+      const tag = parseOpeningTag(content, i);
+      if (tag && Array.isArray(tag.props.content)) {
+        const line = content.slice(0, i).split('\n').length;
+        tables.push({ line, properties: tag.props.content as PropertyDefinition[] });
+      }
+      i = tag ? tag.end : i + 1;
+      continue;
+    }
+    i++;
+  }
+  return tables;
+}
+
+// Remove top-level ESM imports and JSX comments, leaving code blocks untouched
+function stripMdxSyntax(text: string): string {
+  const output: string[] = [];
+  const lines = text.split('\n');
+  let fence: string | null = null;
+  let inImport = false;
+  let inComment = false;
+
+  for (const line of lines) {
+    const fenceMatch = line.match(FENCE);
+    if (fenceMatch) {
+      if (!fence) fence = fenceMatch[1][0];
+      else if (fence === fenceMatch[1][0]) fence = null;
+      output.push(line);
+      continue;
+    }
+    if (fence) {
+      output.push(line);
+      continue;
+    }
+
+    if (inImport || /^import\s/.test(line)) {
+      // Multi-line imports end on the line with the module specifier
+      inImport = !/(from\s+)?['"][^'"]+['"];?\s*$/.test(line);
+      continue;
+    }
+    if (inComment) {
+      inComment = !line.includes('*/}');
+      continue;
+    }
+
+    const withoutComments = line.replace(/\{\/\*.*?\*\/\}/g, '');
+    if (withoutComments.includes('{/*')) {
+      // Multi-line JSX comment, dropped up to its closing line
+      inComment = true;
+      output.push(withoutComments.slice(0, withoutComments.indexOf('{/*')));
+      continue;
+    }
+    output.push(withoutComments);
+  }
+
+  return output.join('\n');
+}
+
+/**
+ * Render MDX as plain markdown: imports are removed and known docs components become
+ * markdown (tabs as labelled sections, callouts as blockquotes, property tables as tables).
+ * Frontmatter is kept as is.
+ */
+export function renderMdxToMarkdown(content: string): string {
+  const { body } = parseFrontmatter(content);
+  const frontmatter = content.slice(0, content.length - body.length);
+  const rendered = renderJsx(stripMdxSyntax(body), { tabLabels: [], tabIndex: 0, fileTreeDepth: 0 });
+  return frontmatter + rendered.replace(/^\n+/, '');
+}
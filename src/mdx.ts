@@ -0,0 +1,124 @@
+export interface Frontmatter {
+  data: Record<string, string>;
+  // Content after the closing frontmatter fence
+  body: string;
+  // Number of lines the frontmatter block occupies, so body line numbers can be mapped back to the file
+  lineOffset: number;
+}
+
+export interface Heading {
+  depth: number;
+  text: string;
+  // GitHub-style anchor slug, unique within the document
+  slug: string;
+  // 1-based line number in the source content
+  line: number;
+}
+
+/**
+ * Parse the simple `key: value` frontmatter used by the docs site
+ */
+export function parseFrontmatter(content: string): Frontmatter {
+  const match = content.match(/^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/);
+  if (!match) {
+    return { data: {}, body: content, lineOffset: 0 };
+  }
+
+  const data: Record<string, string> = {};
+  let currentKey: string | null = null;
+  for (const line of match[1].split(/\r?\n/)) {
+    const keyValue = line.match(/^([A-Za-z0-9_-]+):\s*(.*)$/);
+    if (keyValue) {
+      currentKey = keyValue[1];
+      data[currentKey] = unquote(keyValue[2].trim());
+    } else if (currentKey && /^\s+\S/.test(line)) {
+      // Folded continuation of the previous value
+      data[currentKey] = [data[currentKey], unquote(line.trim())].filter(Boolean).join(' ');
+    }
+  }
+
+  return {
+    data,
+    body: content.slice(match[0].length),
+    lineOffset: match[0].split('\n').length - 1,
+  };
+}
+
+function unquote(value: string): string {
+  if (value.length >= 2 && (value[0] === '"' || value[0] === "'") && value[value.length - 1] === value[0]) {
+    return value.slice(1, -1);
+  }
+  return value;
+}
+
+/**
+ * Create a GitHub-style anchor slug for a heading
+ */
+export function slugify(text: string): string {
+  return text
+    .replace(/<[^>]+>/g, '')
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .toLowerCase()
+    .trim()
+    .replace(/[^\p{L}\p{N}\s_-]/gu, '')
+    .replace(/\s/g, '-');
+}
+
+/**
+ * Extract markdown headings, ignoring anything inside fenced code blocks
+ */
+export function extractHeadings(content: string): Heading[] {
+  const headings: Heading[] = [];
+  const slugCounts = new Map<string, number>();
+  let fence: string | null = null;
+
+  content.split('\n').forEach((line, index) => {
+    const fenceMatch = line.match(/^\s*(```|~~~)/);
+    if (fenceMatch) {
+      if (!fence) fence = fenceMatch[1];
+      else if (fence === fenceMatch[1]) fence = null;
+      return;
+    }
+    if (fence) return;
+
+    const headingMatch = line.match(/^(#{1,6})\s+(.+?)\s*#*\s*$/);
+    if (headingMatch) {
+      // Repeated headings get a numeric suffix, like GitHub does
+      const baseSlug = slugify(headingMatch[2]);
+      const count = slugCounts.get(baseSlug) ?? 0;
+      slugCounts.set(baseSlug, count + 1);
+      const slug = count > 0 ? `${baseSlug}-${count}` : baseSlug;
+
+      headings.push({ depth: headingMatch[1].length, text: headingMatch[2], slug, line: index + 1 });
+    }
+  });
+
+  return headings;
+}
+
+/**
+ * Return the heading with the given slug followed by the headings of its subsections, or null if there is none
+ */
+export function findSectionHeadings(headings: Heading[], slug: string): Heading[] | null {
+  const index = headings.findIndex(heading => heading.slug === slug.toLowerCase());
+  if (index === -1) return null;
+
+  const end = headings.findIndex((heading, i) => i > index && heading.depth <= headings[index].depth);
+  return headings.slice(index, end === -1 ? headings.length : end);
+}
+
+/**
+ * Return the section introduced by the heading with the given slug, including its subsections
+ */
+export function extractSection(content: string, slug: string): string | null {
+  const headings = extractHeadings(content);
+  const section = findSectionHeadings(headings, slug);
+  if (section === null) return null;
+
+  const next = headings[headings.indexOf(section[0]) + section.length];
+  const lines = content.split('\n');
+  return lines
+    .slice(section[0].line - 1, next ? next.line - 1 : lines.length)
+    .join('\n')
+    .trim();
+}
@@ -0,0 +1,115 @@
+import fs from 'node:fs/promises';
+import { getChangelogIndex } from './changelog';
+import { resolveWithinRoot } from './sandbox';
+import { fromPackageRoot } from './utils';
+
+const readmesDir = fromPackageRoot('.docs/organized/readmes');
+
+// Bump whenever the catalog layout changes so stale catalogs are ignored
+export const PACKAGE_CATALOG_VERSION = 1;
+
+export interface CatalogPackage {
+  name: string;
+  description: string | null;
+  // Version in package.json when the catalog was prepared
+  version: string | null;
+  peerDependencies: Record<string, string>;
+  keywords: string[];
+  // Monorepo directory the package lives in, like "stores" or "deployers"; null when the catalog
+  // was derived from the changelogs instead of the sources
+  category: string | null;
+  // Path of the package in the monorepo, like "stores/pg"
+  directory: string | null;
+}
+
+export interface PackageCatalog {
+  version: number;
+  // Sorted by name
+  packages: CatalogPackage[];
+}
+
+/**
+ * Catalog entry for a package from its package.json and where it lives in the monorepo
+ */
+export function toCatalogPackage(
+  packageJson: Record<string, unknown>,
+  category: string,
+  directory: string,
+): CatalogPackage {
+  const { name, description, version, peerDependencies, keywords } = packageJson;
+  return {
+    // The prepare step skips packages without a name
+    name: typeof name === 'string' ? name : '',
+    description: typeof description === 'string' && description ? description : null,
+    version: typeof version === 'string' ? version : null,
+    peerDependencies:
+      peerDependencies && typeof peerDependencies === 'object'
+        ? Object.fromEntries(
+            Object.entries(peerDependencies).filter((entry): entry is [string, string] => typeof entry[1] === 'string'),
+          )
+        : {},
+    keywords: Array.isArray(keywords)
+      ? keywords.filter((keyword): keyword is string => typeof keyword === 'string')
+      : [],
+    category,
+    directory,
+  };
+}
+
+/**
+ * Read the README the prepare step copied for a package, or null when it has none
+ */
+export async function readReadme(packageName: string): Promise<string | null> {
+  try {
+    return await fs.readFile(await resolveWithinRoot(readmesDir, `${encodeURIComponent(packageName)}.md`), 'utf-8');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Read a persisted package catalog, returning null when it is missing or was built by an incompatible version
+ */
+export async function readPackageCatalog(catalogPath: string): Promise<PackageCatalog | null> {
+  try {
+    const catalog = JSON.parse(await fs.readFile(catalogPath, 'utf-8')) as PackageCatalog;
+    return catalog.version === PACKAGE_CATALOG_VERSION ? catalog : null;
+  } catch {
+    return null;
+  }
+}
+
+// Helper function to list the packages with a changelog when no catalog was prepared: names and
+// versions only, the rest of the metadata lives in the package sources
+async function buildCatalogFromChangelogs(): Promise<PackageCatalog> {
+  const index = await getChangelogIndex();
+  return {
+    version: PACKAGE_CATALOG_VERSION,
+    packages: Object.keys(index.packages)
+      .sort()
+      .map(name => ({
+        name,
+        description: null,
+        version: index.packages[name][0]?.version ?? null,
+        peerDependencies: {},
+        keywords: [],
+        category: null,
+        directory: null,
+      })),
+  };
+}
+
+let packageCatalogCache: Promise<PackageCatalog> | null = null;
+
+/**
+ * Package catalog from the prepare step, or the packages with a changelog when it is missing or stale
+ */
+export function getPackageCatalog(): Promise<PackageCatalog> {
+  packageCatalogCache ??= readPackageCatalog(fromPackageRoot('.docs/package-catalog.json'))
+    .then(persisted => persisted ?? buildCatalogFromChangelogs())
+    .catch(error => {
+      packageCatalogCache = null;
+      throw error;
+    });
+  return packageCatalogCache;
+}
@@ -0,0 +1,118 @@
+import { editDistance } from './query-analyzer';
+
+// Names people use for a package that neither contain nor resemble its own
+const PACKAGE_ALIASES: Record<string, string> = {
+  postgres: 'pg',
+  postgresql: 'pg',
+  pgvector: 'pg',
+  sqlite: 'libsql',
+  mongo: 'mongodb',
+  dynamo: 'dynamodb',
+};
+
+const MAX_CANDIDATES = 5;
+
+// Scores of the ways a name can match, lower is closer
+const EXACT = 0;
+const SAME_NAME = 1;
+const PREFIX = 2;
+const PART = 3;
+const TYPO = 4;
+
+interface ScoredName {
+  name: string;
+  score: number;
+  // How many characters the short names differ by, to prefer the tighter of two prefixes
+  lengthDifference: number;
+}
+
+// Helper function to lowercase a package name and drop what callers tend to add: `.md`, URL encoding
+function normalize(name: string): string {
+  let normalized = name.trim().toLowerCase().replace(/\.md$/, '');
+  try {
+    normalized = decodeURIComponent(normalized);
+  } catch {
+    // Not URL encoded
+  }
+  return normalized;
+}
+
+// Helper function to strip the scope or the `mastra-` prefix: `@mastra/core`, `mastra-core` → `core`
+function toShortName(name: string): string {
+  return name.replace(/^@?[^/]+\//, '').replace(/^mastra-/, '');
+}
+
+// Helper function to score how closely `name` matches the query, null when it doesn't
+function scoreName(query: string, shortQuery: string, name: string): number | null {
+  const normalizedName = name.toLowerCase();
+  if (query === normalizedName) return EXACT;
+
+  const shortName = toShortName(normalizedName);
+  const queryParts = shortQuery.split(/[-_\s]+/).filter(Boolean);
+  const nameParts = shortName.split('-');
+  if (
+    shortQuery === shortName ||
+    (Object.hasOwn(PACKAGE_ALIASES, shortQuery) && PACKAGE_ALIASES[shortQuery] === shortName)
+  ) {
+    return SAME_NAME;
+  }
+  // The same words in another order: `cloudflare-deployer`
+  if (queryParts.length === nameParts.length && queryParts.every(part => nameParts.includes(part))) return SAME_NAME;
+
+  if (shortQuery.length >= 2 && (shortName.startsWith(shortQuery) || shortQuery.startsWith(`${shortName}-`))) {
+    return PREFIX;
+  }
+  if (
+    queryParts.every(part => nameParts.includes(part)) ||
+    (shortQuery.length >= 3 && shortName.includes(shortQuery))
+  ) {
+    return PART;
+  }
+
+  // Two edits turn too many short names into each other: `store` and `core`
+  const maxDistance = shortQuery.length >= 8 ? 2 : 1;
+  const distance = editDistance(shortQuery, shortName, maxDistance);
+  return distance <= maxDistance ? TYPO + distance : null;
+}
+
+// Helper function to score every package name against the query, closest first
+function rankNames(query: string, names: string[]): ScoredName[] {
+  const normalizedQuery = normalize(query);
+  const shortQuery = toShortName(normalizedQuery);
+  if (!shortQuery) return [];
+
+  return names
+    .flatMap(name => {
+      const score = scoreName(normalizedQuery, shortQuery, name);
+      return score === null
+        ? []
+        : [{ name, score, lengthDifference: Math.abs(toShortName(name.toLowerCase()).length - shortQuery.length) }];
+    })
+    .sort((a, b) => a.score - b.score || a.lengthDifference - b.lengthDifference || a.name.localeCompare(b.name));
+}
+
+/**
+ * Package names resembling `query`, closest first: the same name without its scope (`core`, `mastra-core`),
+ * a known alias (`postgres` for `@mastra/pg`), a prefix or part of the name, or a typo of it
+ */
+export function suggestPackageNames(query: string, names: string[]): string[] {
+  return rankNames(query, names)
+    .slice(0, MAX_CANDIDATES)
+    .map(({ name }) => name);
+}
+
+// Shortest query a typo is trusted for: below it, one edit turns too many names into others (`ram` → `rag`)
+const MIN_TYPO_QUERY_LENGTH = 5;
+
+/**
+ * Resolve a loosely written package name to one of `names`. Only a clear match resolves: the same name
+ * (or an alias) that no other package ties with, or the one and only package the query is a prefix of or,
+ * for queries of at least five characters, a typo of.
+ */
+export function resolvePackageName(query: string, names: string[]): string | null {
+  const [best, next] = rankNames(query, names);
+  if (!best) return null;
+  if (next) return best.score <= SAME_NAME && next.score > best.score ? best.name : null;
+  if (best.score <= PREFIX) return best.name;
+  return best.score >= TYPO && toShortName(normalize(query)).length >= MIN_TYPO_QUERY_LENGTH ? best.name : null;
+}
@@ -1,9 +1,11 @@
 import fs from 'node:fs/promises';
 import path from 'node:path';
+import { buildExamplesManifest } from '../examples-manifest.js';
 import { fromPackageRoot, fromRepoRoot, log } from '../utils.js';
 
 const EXAMPLES_SOURCE = fromRepoRoot('examples');
 const OUTPUT_DIR = fromPackageRoot('.docs/organized/code-examples');
+const EXAMPLES_MANIFEST_DEST = fromPackageRoot('.docs/examples-manifest.json');
 
 interface ExampleConfig {
   ignore?: string[];
@@ -35,7 +37,36 @@ function shouldIgnoreFile(filePath: string, ignorePatterns: string[] = []): bool
 }
 
 /**
- * Scans example directories and creates flattened code example files
+ * Summarize an example with the first paragraph of prose in its README, falling back to the
+ * package.json description
+ */
+async function readExampleSummary(examplePath: string): Promise<string | null> {
+  try {
+    const readme = await fs.readFile(path.join(examplePath, 'README.md'), 'utf-8');
+    const paragraph = readme
+      .replace(/^---\n[\s\S]*?\n---\n/, '')
+      .replace(/```[\s\S]*?```/g, '')
+      .split(/\n\s*\n/)
+      .map(block => block.trim())
+      // Headings, lists, badges, images and HTML aren't prose
+      .find(block => block && !/^(#|[-*+] |\d+\. |!\[|\[!\[|<|>|\|)/.test(block));
+    if (paragraph) {
+      const summary = paragraph.replace(/\[([^\]]*)\]\([^)]*\)/g, '$1').replace(/\s+/g, ' ');
+      return summary.length > 300 ? `${summary.slice(0, 297).trimEnd()}...` : summary;
+    }
+  } catch {
+    // No README
+  }
+  try {
+    const packageJson = JSON.parse(await fs.readFile(path.join(examplePath, 'package.json'), 'utf-8'));
+    return typeof packageJson.description === 'string' && packageJson.description ? packageJson.description : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Scans example directories and creates flattened code example files, along with a manifest of their files
  */
 export async function prepareCodeExamples() {
   // Clean up existing output directory
@@ -51,6 +82,7 @@ export async function prepareCodeExamples() {
   // Get all example directories
   const examples = await fs.readdir(EXAMPLES_SOURCE, { withFileTypes: true });
   const exampleDirs = examples.filter(entry => entry.isDirectory());
+  const summaries: Record<string, string> = {};
 
   for (const dir of exampleDirs) {
     const examplePath = path.join(EXAMPLES_SOURCE, dir.name);
@@ -118,8 +150,17 @@ export async function prepareCodeExamples() {
 
       await fs.writeFile(outputFile, output, 'utf-8');
       log(`Generated ${dir.name}.md with ${totalLines} lines`);
+
+      const summary = await readExampleSummary(examplePath);
+      if (summary) summaries[dir.name] = summary;
     }
   }
+
+  // Record where each file starts so single files can be served without the rest of the example,
+  // and what each example uses so examples can be found by package or API
+  const manifest = await buildExamplesManifest(OUTPUT_DIR, summaries);
+  await fs.writeFile(EXAMPLES_MANIFEST_DEST, JSON.stringify(manifest), 'utf-8');
+  log(`Generated examples manifest for ${Object.keys(manifest.examples).length} examples`);
 }
 
 /**
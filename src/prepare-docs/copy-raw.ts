@@ -26,6 +26,9 @@ async function copyDir(src: string, dest: string) {
     } else if (entry.isFile() && (entry.name.endsWith('.mdx') || entry.name.endsWith('.md'))) {
       // Copy both mdx and md files
       await fs.copyFile(srcPath, destPath);
+    } else if (entry.isFile() && entry.name.startsWith('_meta.')) {
+      // Keep the docs site navigation order, listings follow it
+      await fs.copyFile(srcPath, destPath);
     }
   }
 }
@@ -0,0 +1,15 @@
+import fs from 'node:fs/promises';
+import { buildDocsManifest } from '../docs-manifest.js';
+import { fromPackageRoot, log } from '../utils.js';
+
+const DOCS_DIR = fromPackageRoot('.docs/raw');
+const DOCS_MANIFEST_DEST = fromPackageRoot('.docs/docs-manifest.json');
+
+/**
+ * Records the title and description of every docs page for directory listings
+ */
+export async function prepareDocsManifest() {
+  const manifest = await buildDocsManifest(DOCS_DIR);
+  await fs.writeFile(DOCS_MANIFEST_DEST, JSON.stringify(manifest, null, 2), 'utf-8');
+  log(`Generated docs manifest for ${Object.keys(manifest.pages).length} pages`);
+}
@@ -1,5 +1,11 @@
+import { spawn } from 'node:child_process';
 import fs from 'node:fs/promises';
 import path from 'node:path';
+import { createInterface } from 'node:readline';
+import { CHANGELOG_INDEX_VERSION, parseChangelog } from '../changelog.js';
+import type { ChangelogIndex } from '../changelog.js';
+import { PACKAGE_CATALOG_VERSION, toCatalogPackage } from '../package-catalog.js';
+import type { PackageCatalog } from '../package-catalog.js';
 import { fromPackageRoot, fromRepoRoot, log } from '../utils.js';
 
 // Define all source directories to scan
@@ -7,24 +13,78 @@ const SOURCE_DIRS = ['packages', 'speech', 'stores', 'voice', 'integrations', 'd
   fromRepoRoot,
 );
 const CHANGELOGS_DEST = fromPackageRoot('.docs/organized/changelogs');
-const MAX_LINES = 300;
+const READMES_DEST = fromPackageRoot('.docs/organized/readmes');
+const CHANGELOG_INDEX_DEST = fromPackageRoot('.docs/changelog-index.json');
+const PACKAGE_CATALOG_DEST = fromPackageRoot('.docs/package-catalog.json');
 
 /**
- * Truncates content to a maximum number of lines and adds a message about hidden lines
+ * Read the day each of `versions` was first committed as a changelog heading from git history.
+ * Only commits touching a heading are read, oldest first, and git is stopped once every version has a date.
+ * Returns an empty map outside of a git checkout, release dates are optional.
  */
-function truncateContent(content: string, maxLines: number): string {
-  const lines = content.split('\n');
-  if (lines.length <= maxLines) return content;
+async function readReleaseDates(packagePath: string, versions: string[]): Promise<Map<string, string>> {
+  const dates = new Map<string, string>();
+  const pending = new Set(versions);
+  if (pending.size === 0) return dates;
 
-  const visibleLines = lines.slice(0, maxLines);
-  const hiddenCount = lines.length - maxLines;
-  return visibleLines.join('\n') + `\n\n... ${hiddenCount} more lines hidden. See full changelog in package directory.`;
+  const git = spawn('git', ['log', '--reverse', '--format=commit %cs', '-G^## ', '-p', '-U0', '--', 'CHANGELOG.md'], {
+    cwd: packagePath,
+    stdio: ['ignore', 'pipe', 'ignore'],
+  });
+  const exited = new Promise<number | Error | null>(resolve => {
+    git.on('error', resolve);
+    git.on('close', resolve);
+  });
+
+  let date: string | null = null;
+  for await (const line of createInterface({ input: git.stdout })) {
+    const commit = line.match(/^commit (\d{4}-\d{2}-\d{2})$/);
+    if (commit) {
+      date = commit[1];
+      continue;
+    }
+    const heading = line.match(/^\+##\s+v?(\d+\.\d+\.\d+(?:-[\w.]+)?)\s*$/);
+    if (heading && date && pending.delete(heading[1])) {
+      dates.set(heading[1], date);
+      if (pending.size === 0) break;
+    }
+  }
+
+  if (pending.size === 0) git.kill();
+  const result = await exited;
+  if (result instanceof Error || (pending.size > 0 && result !== 0)) {
+    const reason = result instanceof Error ? result.message : `git exited with code ${result}`;
+    log(`No release dates for ${path.basename(packagePath)}: ${reason}`);
+  }
+  return dates;
+}
+
+/**
+ * Copy the README of a package, which holds the setup instructions of most stores, voice providers and deployers
+ */
+async function copyReadme(packagePath: string, packageName: string, readmesDir: string): Promise<void> {
+  let readme: string;
+  try {
+    readme = await fs.readFile(path.join(packagePath, 'README.md'), 'utf-8');
+  } catch {
+    log(`No README for ${packageName}`);
+    return;
+  }
+  await fs.writeFile(path.join(readmesDir, `${encodeURIComponent(packageName)}.md`), readme, 'utf-8');
 }
 
 /**
- * Process a single package directory
+ * Process a single package directory, recording its metadata in the catalog, its changelog in the index
+ * and copying its README
  */
-async function processPackageDir(packagePath: string, outputDir: string): Promise<void> {
+async function processPackageDir(
+  packagePath: string,
+  category: string,
+  outputDir: string,
+  readmesDir: string,
+  index: ChangelogIndex,
+  catalog: PackageCatalog,
+): Promise<void> {
   // Try to read package.json first
   let packageName: string;
   try {
@@ -35,6 +95,7 @@ async function processPackageDir(packagePath: string, outputDir: string): Promis
       log(`Skipping ${path.basename(packagePath)}: No package name found in package.json`);
       return;
     }
+    catalog.packages.push(toCatalogPackage(packageJson, category, `${category}/${path.basename(packagePath)}`));
   } catch {
     console.error(`Skipping ${path.basename(packagePath)}: No valid package.json found`);
     return;
@@ -46,7 +107,15 @@ async function processPackageDir(packagePath: string, outputDir: string): Promis
     let changelog: string;
     try {
       changelog = await fs.readFile(changelogPath, 'utf-8');
-      changelog = truncateContent(changelog, MAX_LINES);
+      const releases = parseChangelog(changelog);
+      const releaseDates = await readReleaseDates(
+        packagePath,
+        releases.map(release => release.version),
+      );
+      index.packages[packageName] = releases.map(release => ({
+        ...release,
+        date: releaseDates.get(release.version) ?? null,
+      }));
     } catch {
       changelog = 'No changelog available.';
     }
@@ -58,23 +127,35 @@ async function processPackageDir(packagePath: string, outputDir: string): Promis
   } catch (error) {
     console.error(`Error processing changelog for ${packageName}:`, error);
   }
+
+  try {
+    await copyReadme(packagePath, packageName, readmesDir);
+  } catch (error) {
+    console.error(`Error copying README for ${packageName}:`, error);
+  }
 }
 
 /**
- * Scans package directories and creates organized changelog files
+ * Scans package directories and creates organized changelog and README files
  */
 export async function preparePackageChanges() {
   const outputDir = path.resolve(process.cwd(), CHANGELOGS_DEST);
+  const readmesDir = path.resolve(process.cwd(), READMES_DEST);
 
-  // Clean up existing output directory
-  try {
-    await fs.rm(outputDir, { recursive: true, force: true });
-  } catch {
-    // Ignore errors if directory doesn't exist
+  // Clean up existing output directories
+  for (const dir of [outputDir, readmesDir]) {
+    try {
+      await fs.rm(dir, { recursive: true, force: true });
+    } catch {
+      // Ignore errors if directory doesn't exist
+    }
+
+    // Ensure output directory exists
+    await fs.mkdir(dir, { recursive: true });
   }
 
-  // Ensure output directory exists
-  await fs.mkdir(outputDir, { recursive: true });
+  const index: ChangelogIndex = { version: CHANGELOG_INDEX_VERSION, packages: {} };
+  const catalog: PackageCatalog = { version: PACKAGE_CATALOG_VERSION, packages: [] };
 
   // Process each source directory
   for (const sourceDir of SOURCE_DIRS) {
@@ -92,10 +173,17 @@ export async function preparePackageChanges() {
       // Process each package directory
       for (const dir of packageDirs) {
         const packagePath = path.join(fullSourceDir, dir.name);
-        await processPackageDir(packagePath, outputDir);
+        await processPackageDir(packagePath, path.basename(sourceDir), outputDir, readmesDir, index, catalog);
       }
     } catch {
       console.error(`Skipping ${sourceDir}: Directory not found or not accessible`);
     }
   }
+
+  await fs.writeFile(CHANGELOG_INDEX_DEST, JSON.stringify(index), 'utf-8');
+  log(`Indexed changelog versions of ${Object.keys(index.packages).length} packages`);
+
+  catalog.packages.sort((a, b) => a.name.localeCompare(b.name));
+  await fs.writeFile(PACKAGE_CATALOG_DEST, JSON.stringify(catalog), 'utf-8');
+  log(`Cataloged ${catalog.packages.length} packages`);
 }
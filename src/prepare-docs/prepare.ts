@@ -1,11 +1,23 @@
 import { log } from '../utils.js';
 import { prepareCodeExamples } from './code-examples.js';
 import { copyRaw } from './copy-raw.js';
+import { prepareDocsManifest } from './docs-manifest.js';
 import { preparePackageChanges } from './package-changes.js';
+import { prepareRedirects } from './redirects.js';
+import { prepareSearchIndex } from './search-index.js';
+import { prepareSymbolIndex } from './symbol-index.js';
 
 export async function prepare() {
   log('Preparing documentation...');
   await copyRaw();
+  log('Preparing docs manifest...');
+  await prepareDocsManifest();
+  log('Preparing redirects...');
+  await prepareRedirects();
+  log('Preparing search index...');
+  await prepareSearchIndex();
+  log('Preparing API symbol index...');
+  await prepareSymbolIndex();
   log('Preparing code examples...');
   await prepareCodeExamples();
   log('Preparing package changelogs...');
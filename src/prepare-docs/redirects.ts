@@ -0,0 +1,36 @@
+import fs from 'node:fs/promises';
+import { parseRedirects, REDIRECT_MAP_VERSION } from '../docs-redirects.js';
+import type { RedirectMap } from '../docs-redirects.js';
+import { fromPackageRoot, fromRepoRoot, log } from '../utils.js';
+
+// Docs site files that may declare redirects for moved pages
+const REDIRECT_SOURCES = [
+  fromRepoRoot('docs/next.config.mjs'),
+  fromRepoRoot('docs/next.config.js'),
+  fromRepoRoot('docs/config/redirects.mjs'),
+  fromRepoRoot('docs/config/redirects.js'),
+];
+const REDIRECT_MAP_DEST = fromPackageRoot('.docs/redirects.json');
+
+/**
+ * Collects the docs site redirects so moved pages can still be requested by their old paths
+ */
+export async function prepareRedirects() {
+  const map: RedirectMap = { version: REDIRECT_MAP_VERSION, redirects: {}, prefixRedirects: {} };
+  for (const sourcePath of REDIRECT_SOURCES) {
+    let source: string;
+    try {
+      source = await fs.readFile(sourcePath, 'utf-8');
+    } catch {
+      continue;
+    }
+    const parsed = parseRedirects(source);
+    Object.assign(map.redirects, parsed.redirects);
+    Object.assign(map.prefixRedirects, parsed.prefixRedirects);
+  }
+
+  await fs.writeFile(REDIRECT_MAP_DEST, JSON.stringify(map, null, 2), 'utf-8');
+  log(
+    `Generated redirect map with ${Object.keys(map.redirects).length + Object.keys(map.prefixRedirects).length} rules`,
+  );
+}
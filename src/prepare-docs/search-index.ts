@@ -0,0 +1,15 @@
+import fs from 'node:fs/promises';
+import { buildSearchIndex } from '../search-index.js';
+import { fromPackageRoot, log } from '../utils.js';
+
+const DOCS_DIR = fromPackageRoot('.docs/raw');
+const SEARCH_INDEX_DEST = fromPackageRoot('.docs/search-index.json');
+
+/**
+ * Builds the inverted index used to rank docs for keyword queries
+ */
+export async function prepareSearchIndex() {
+  const index = await buildSearchIndex(DOCS_DIR);
+  await fs.writeFile(SEARCH_INDEX_DEST, JSON.stringify(index), 'utf-8');
+  log(`Indexed ${index.documents.length} docs with ${Object.keys(index.postings).length} terms`);
+}
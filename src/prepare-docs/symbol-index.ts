@@ -0,0 +1,15 @@
+import fs from 'node:fs/promises';
+import { buildSymbolIndex } from '../symbol-index.js';
+import { fromPackageRoot, log } from '../utils.js';
+
+const DOCS_DIR = fromPackageRoot('.docs/raw');
+const SYMBOL_INDEX_DEST = fromPackageRoot('.docs/symbol-index.json');
+
+/**
+ * Indexes the classes, functions and methods documented in the API reference
+ */
+export async function prepareSymbolIndex() {
+  const index = await buildSymbolIndex(DOCS_DIR);
+  await fs.writeFile(SYMBOL_INDEX_DEST, JSON.stringify(index), 'utf-8');
+  log(`Indexed ${index.symbols.length} API reference symbols`);
+}
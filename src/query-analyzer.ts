@@ -0,0 +1,113 @@
+import { tokenize } from './search-index';
+import type { QueryTerm, SearchIndex } from './search-index';
+import { SYNONYMS } from './synonyms';
+
+// Weights relative to a term typed by the user
+const SYNONYM_WEIGHT = 0.6;
+const TYPO_WEIGHT = 0.7;
+
+// Shorter terms produce too many false positives to correct
+const MIN_TYPO_LENGTH = 4;
+const MAX_TYPO_CANDIDATES = 3;
+
+export interface AnalyzedQuery {
+  terms: QueryTerm[];
+  // Docs path prefixes to rank higher, from matched synonym entries
+  pathBoosts: string[];
+}
+
+const vocabularyCache = new WeakMap<SearchIndex, string[]>();
+
+function getVocabulary(index: SearchIndex): string[] {
+  let vocabulary = vocabularyCache.get(index);
+  if (!vocabulary) {
+    vocabulary = Object.keys(index.postings);
+    vocabularyCache.set(index, vocabulary);
+  }
+  return vocabulary;
+}
+
+/**
+ * Optimal string alignment distance, giving up once it exceeds `maxDistance`
+ */
+export function editDistance(a: string, b: string, maxDistance: number): number {
+  if (Math.abs(a.length - b.length) > maxDistance) return maxDistance + 1;
+
+  let previousPrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMinimum = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        current[j] = Math.min(current[j], previousPrevious[j - 2] + 1);
+      }
+      rowMinimum = Math.min(rowMinimum, current[j]);
+    }
+    if (rowMinimum > maxDistance) return maxDistance + 1;
+    previousPrevious = previous;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function findTypoCandidates(term: string, vocabulary: string[]): string[] {
+  if (term.length < MIN_TYPO_LENGTH) return [];
+  const maxDistance = term.length >= 8 ? 2 : 1;
+
+  return vocabulary
+    .map(candidate => ({ candidate, distance: editDistance(term, candidate, maxDistance) }))
+    .filter(({ distance }) => distance <= maxDistance)
+    .sort((a, b) => a.distance - b.distance || a.candidate.localeCompare(b.candidate))
+    .slice(0, MAX_TYPO_CANDIDATES)
+    .map(({ candidate }) => candidate);
+}
+
+function containsSequence(tokens: string[], sequence: string[]): number {
+  for (let i = 0; i + sequence.length <= tokens.length; i++) {
+    if (sequence.every((token, j) => tokens[i + j] === token)) return i;
+  }
+  return -1;
+}
+
+/**
+ * Turn raw query keywords into weighted index terms: stemmed query tokens,
+ * typo corrections for tokens the index doesn't know, and synonym expansions.
+ */
+export function analyzeQuery(keywords: string[], index: SearchIndex): AnalyzedQuery {
+  const queryTokens = keywords.flatMap(tokenize);
+  const terms = new Map<string, QueryTerm>();
+  const pathBoosts = new Set<string>();
+
+  const addTerm = (term: string, weight: number, source: string) => {
+    const existing = terms.get(term);
+    if (!existing || existing.weight < weight) terms.set(term, { term, weight, source });
+  };
+
+  const vocabulary = getVocabulary(index);
+  // Synonyms are matched against corrected tokens so "memroy" still expands like "memory"
+  const correctedTokens = queryTokens.map(token => {
+    addTerm(token, 1, token);
+    if (Object.hasOwn(index.postings, token)) return token;
+
+    const candidates = findTypoCandidates(token, vocabulary);
+    candidates.forEach(candidate => addTerm(candidate, TYPO_WEIGHT, token));
+    return candidates[0] ?? token;
+  });
+
+  for (const entry of SYNONYMS) {
+    const aliasTokens = entry.aliases.map(alias => tokenize(alias));
+    const matchedAt = aliasTokens
+      .map(tokens => containsSequence(correctedTokens, tokens))
+      .find(position => position >= 0);
+    if (matchedAt === undefined) continue;
+
+    const source = queryTokens[matchedAt];
+    for (const token of aliasTokens.flat()) addTerm(token, SYNONYM_WEIGHT, source);
+    entry.paths?.forEach(prefix => pathBoosts.add(prefix));
+  }
+
+  return { terms: Array.from(terms.values()), pathBoosts: Array.from(pathBoosts) };
+}
@@ -0,0 +1,99 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+
+export type PathAccessErrorCode = 'PATH_OUTSIDE_ROOT' | 'INVALID_PATH';
+
+/**
+ * Raised when a path from tool input can't be served from its content root
+ */
+export class PathAccessError extends Error {
+  readonly code: PathAccessErrorCode;
+  readonly requestedPath: string;
+
+  constructor(code: PathAccessErrorCode, requestedPath: string, message: string) {
+    super(message);
+    this.name = 'PathAccessError';
+    this.code = code;
+    this.requestedPath = requestedPath;
+  }
+
+  /**
+   * Tool response for the refusal, as JSON so clients can tell it apart from content
+   */
+  toResponse(): string {
+    return JSON.stringify({ error: { code: this.code, message: this.message, path: this.requestedPath } }, null, 2);
+  }
+}
+
+// Undo percent-encoding, including double encoding, so `%2e%2e%2f` is checked as `../`
+function decodePath(requestedPath: string): string {
+  let decoded = requestedPath;
+  for (let i = 0; i < 3; i++) {
+    let next: string;
+    try {
+      next = decodeURIComponent(decoded);
+    } catch {
+      // Not valid percent-encoding, the `%` is part of the name
+      return decoded;
+    }
+    if (next === decoded) return decoded;
+    decoded = next;
+  }
+  return decoded;
+}
+
+function isWithin(root: string, target: string): boolean {
+  const relative = path.relative(root, target);
+  return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+}
+
+// Real path of `target`, resolving symlinks of the part of it that exists
+async function realPathOf(target: string): Promise<string> {
+  const missing: string[] = [];
+  let current = target;
+  while (true) {
+    try {
+      return path.join(await fs.realpath(current), ...missing.reverse());
+    } catch {
+      const parent = path.dirname(current);
+      if (parent === current) return target;
+      missing.push(path.basename(current));
+      current = parent;
+    }
+  }
+}
+
+/**
+ * Resolve a path from tool input against `root`, refusing anything that ends up outside of it:
+ * `..` segments, percent-encoded traversal, drive letters and symlinks pointing elsewhere.
+ * Leading slashes are treated as relative to `root`. Returns the absolute path to read.
+ */
+export async function resolveWithinRoot(root: string, requestedPath: string): Promise<string> {
+  const resolvedRoot = path.resolve(root);
+  const realRoot = await realPathOf(resolvedRoot);
+  const toAbsolute = (candidate: string) => path.resolve(resolvedRoot, candidate.replace(/^\/+/, ''));
+  const outsideRoot = () =>
+    new PathAccessError(
+      'PATH_OUTSIDE_ROOT',
+      requestedPath,
+      `Path "${requestedPath}" is outside the content this tool serves. Use a path relative to its root.`,
+    );
+
+  // The decoded form is checked too, in case anything downstream decodes it
+  const candidates = new Set(
+    [requestedPath, decodePath(requestedPath)].map(candidate => candidate.replace(/\\/g, '/')),
+  );
+  for (const candidate of candidates) {
+    if (candidate.includes('\0')) {
+      throw new PathAccessError('INVALID_PATH', requestedPath, `Path "${requestedPath}" contains invalid characters.`);
+    }
+    if (/^[a-z]:/i.test(candidate)) throw outsideRoot();
+
+    const resolved = toAbsolute(candidate);
+    if (!isWithin(resolvedRoot, resolved)) throw outsideRoot();
+    // A symlink inside the root may still point elsewhere
+    if (!isWithin(realRoot, await realPathOf(resolved))) throw outsideRoot();
+  }
+
+  return toAbsolute(requestedPath.replace(/\\/g, '/'));
+}
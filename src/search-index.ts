@@ -0,0 +1,235 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { extractHeadings, parseFrontmatter } from './mdx';
+import { stem } from './stemmer';
+
+// Bump whenever the tokenizer or the index layout changes so stale indexes are rebuilt
+export const SEARCH_INDEX_VERSION = 2;
+
+// Order of the per-field term frequencies and lengths stored in the index
+const FIELDS = ['body', 'heading', 'title', 'path'] as const;
+type Field = (typeof FIELDS)[number];
+
+const FIELD_WEIGHTS: Record<Field, number> = {
+  body: 1,
+  heading: 3,
+  title: 5,
+  path: 4,
+};
+
+// BM25 tuning parameters
+const K1 = 1.2;
+const B = 0.75;
+
+const STOP_WORDS = new Set([
+  'a',
+  'an',
+  'and',
+  'are',
+  'as',
+  'at',
+  'be',
+  'by',
+  'for',
+  'from',
+  'how',
+  'in',
+  'is',
+  'it',
+  'of',
+  'on',
+  'or',
+  'the',
+  'this',
+  'to',
+  'with',
+]);
+
+export interface IndexedDocument {
+  // Path relative to the indexed directory, always using forward slashes
+  path: string;
+  title: string;
+  // Token count per field, in FIELDS order
+  lengths: number[];
+}
+
+export interface SearchIndex {
+  version: number;
+  documents: IndexedDocument[];
+  // Average token count per field, in FIELDS order
+  averageLengths: number[];
+  // term -> list of [documentId, ...term frequency per field in FIELDS order]
+  postings: Record<string, number[][]>;
+}
+
+export interface QueryTerm {
+  // Index term to look up
+  term: string;
+  // Multiplier applied to the term's score, below 1 for expansions such as synonyms
+  weight: number;
+  // Query token this term was derived from
+  source: string;
+}
+
+export interface SearchResult {
+  path: string;
+  title: string;
+  score: number;
+  // Index terms found in the document
+  matchedTerms: string[];
+  // Share of the query tokens matched directly or through an expansion, between 0 and 1
+  coverage: number;
+}
+
+/**
+ * Split text into lowercase, stemmed search tokens. camelCase and PascalCase identifiers are
+ * indexed both as a whole and as their parts so `createWorkflow` matches `workflows`.
+ */
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  for (const word of text.match(/[A-Za-z0-9]+/g) ?? []) {
+    const lower = word.toLowerCase();
+    if (lower.length > 1 && !STOP_WORDS.has(lower)) tokens.push(stem(lower));
+
+    const parts = word.split(/(?<=[a-z0-9])(?=[A-Z])|(?<=[A-Z])(?=[A-Z][a-z])/);
+    if (parts.length > 1) {
+      for (const part of parts) {
+        const lowerPart = part.toLowerCase();
+        if (lowerPart.length > 1 && !STOP_WORDS.has(lowerPart)) tokens.push(stem(lowerPart));
+      }
+    }
+  }
+  return tokens;
+}
+
+async function* walkFiles(dir: string, extensions: string[]): AsyncGenerator<string> {
+  const entries = await fs.readdir(dir, { withFileTypes: true });
+  for (const entry of entries) {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      yield* walkFiles(fullPath, extensions);
+    } else if (entry.isFile() && extensions.some(ext => entry.name.endsWith(ext))) {
+      yield fullPath;
+    }
+  }
+}
+
+function countTerms(tokens: string[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const token of tokens) counts.set(token, (counts.get(token) ?? 0) + 1);
+  return counts;
+}
+
+/**
+ * Build an inverted index over every markdown file below `baseDir`
+ */
+export async function buildSearchIndex(baseDir: string, extensions = ['.mdx', '.md']): Promise<SearchIndex> {
+  const documents: IndexedDocument[] = [];
+  const postings = new Map<string, number[][]>();
+  const totalLengths = FIELDS.map(() => 0);
+
+  const files: string[] = [];
+  for await (const file of walkFiles(baseDir, extensions)) files.push(file);
+  files.sort();
+
+  for (const filePath of files) {
+    let content: string;
+    try {
+      content = await fs.readFile(filePath, 'utf-8');
+    } catch {
+      continue;
+    }
+
+    const relativePath = path.relative(baseDir, filePath).replace(/\\/g, '/');
+    const { data, body } = parseFrontmatter(content);
+    const headings = extractHeadings(body);
+    const title = data.title || headings.find(h => h.depth === 1)?.text || relativePath;
+
+    const fieldTokens: Record<Field, string[]> = {
+      body: tokenize([data.description ?? '', body].join('\n')),
+      heading: tokenize(headings.map(h => h.text).join('\n')),
+      title: tokenize(title),
+      path: tokenize(relativePath.replace(/\.(mdx|md)$/, '')),
+    };
+
+    const documentId = documents.length;
+    const lengths = FIELDS.map(field => fieldTokens[field].length);
+    lengths.forEach((length, i) => (totalLengths[i] += length));
+    documents.push({ path: relativePath, title, lengths });
+
+    const fieldCounts = FIELDS.map(field => countTerms(fieldTokens[field]));
+    const terms = new Set(fieldCounts.flatMap(counts => Array.from(counts.keys())));
+    for (const term of terms) {
+      const termPostings = postings.get(term) ?? [];
+      termPostings.push([documentId, ...fieldCounts.map(counts => counts.get(term) ?? 0)]);
+      postings.set(term, termPostings);
+    }
+  }
+
+  return {
+    version: SEARCH_INDEX_VERSION,
+    documents,
+    averageLengths: totalLengths.map(total => (documents.length > 0 ? total / documents.length : 0)),
+    postings: Object.fromEntries(postings),
+  };
+}
+
+/**
+ * Read a persisted index, returning null when it is missing or was built by an incompatible version
+ */
+export async function readSearchIndex(indexPath: string): Promise<SearchIndex | null> {
+  try {
+    const index = JSON.parse(await fs.readFile(indexPath, 'utf-8')) as SearchIndex;
+    return index.version === SEARCH_INDEX_VERSION ? index : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Rank indexed documents against weighted query terms using BM25F
+ */
+export function querySearchIndex(index: SearchIndex, terms: QueryTerm[], limit = 10): SearchResult[] {
+  const totalDocuments = index.documents.length;
+  const totalSources = new Set(terms.map(({ source }) => source)).size;
+  const scores = new Map<number, { score: number; matchedTerms: Set<string>; matchedSources: Set<string> }>();
+
+  for (const { term, weight, source } of terms) {
+    // Terms such as "constructor" must not resolve to inherited object properties
+    if (!Object.hasOwn(index.postings, term)) continue;
+    const postings = index.postings[term];
+
+    const idf = Math.log(1 + (totalDocuments - postings.length + 0.5) / (postings.length + 0.5));
+    for (const [documentId, ...frequencies] of postings) {
+      const document = index.documents[documentId];
+      let weightedFrequency = 0;
+      FIELDS.forEach((field, i) => {
+        if (!frequencies[i]) return;
+        const averageLength = index.averageLengths[i] || 1;
+        const normalization = 1 - B + B * (document.lengths[i] / averageLength);
+        weightedFrequency += (FIELD_WEIGHTS[field] * frequencies[i]) / normalization;
+      });
+
+      const entry = scores.get(documentId) ?? {
+        score: 0,
+        matchedTerms: new Set<string>(),
+        matchedSources: new Set<string>(),
+      };
+      entry.score += (weight * idf * weightedFrequency) / (K1 + weightedFrequency);
+      entry.matchedTerms.add(term);
+      entry.matchedSources.add(source);
+      scores.set(documentId, entry);
+    }
+  }
+
+  return Array.from(scores.entries())
+    .map(([documentId, { score, matchedTerms, matchedSources }]) => ({
+      path: index.documents[documentId].path,
+      title: index.documents[documentId].title,
+      score,
+      matchedTerms: Array.from(matchedTerms),
+      coverage: totalSources > 0 ? matchedSources.size / totalSources : 0,
+    }))
+    .sort((a, b) => b.score - a.score || a.path.localeCompare(b.path))
+    .slice(0, limit);
+}
@@ -0,0 +1,38 @@
+const VOWEL = /[aeiouy]/;
+
+/**
+ * Light English suffix stripper. It only needs to be consistent between indexing and querying,
+ * so it favours predictable output ("embeddings" and "embedded" both become "embed") over linguistic accuracy.
+ */
+export function stem(word: string): string {
+  if (word.length <= 3 || /\d/.test(word)) return word;
+
+  let stemmed = word;
+
+  // Plurals
+  if (stemmed.endsWith('ies') && stemmed.length > 4) {
+    stemmed = stemmed.slice(0, -3) + 'y';
+  } else if (/(ss|x|z|ch|sh)es$/.test(stemmed)) {
+    stemmed = stemmed.slice(0, -2);
+  } else if (stemmed.endsWith('s') && !/(ss|us|is)$/.test(stemmed)) {
+    stemmed = stemmed.slice(0, -1);
+  }
+
+  // Verb forms, only when a vowel remains in the stem
+  for (const suffix of ['ing', 'ed']) {
+    const base = stemmed.slice(0, -suffix.length);
+    if (stemmed.endsWith(suffix) && base.length >= 3 && VOWEL.test(base)) {
+      stemmed = base;
+      // running -> run, embedded -> embed, but keep calling -> call
+      if (/([^aeiouslz])\1$/.test(stemmed)) stemmed = stemmed.slice(0, -1);
+      break;
+    }
+  }
+
+  // Trailing e, so that create, creates, creating and created share a stem
+  if (stemmed.endsWith('e') && stemmed.length > 4) {
+    stemmed = stemmed.slice(0, -1);
+  }
+
+  return stemmed;
+}
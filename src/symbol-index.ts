@@ -0,0 +1,458 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { extractHeadings, parseFrontmatter } from './mdx';
+import type { Heading } from './mdx';
+import { extractPropertiesTables } from './mdx-to-markdown';
+import type { PropertyDefinition } from './mdx-to-markdown';
+import { editDistance } from './query-analyzer';
+
+// Bump whenever the index layout or extraction rules change so stale indexes are rebuilt
+export const SYMBOL_INDEX_VERSION = 2;
+
+export type SymbolKind = 'class' | 'function' | 'method' | 'type';
+
+export interface ParameterGroup {
+  // Heading the properties table appears under
+  heading: string;
+  properties: PropertyDefinition[];
+}
+
+export interface SymbolEntry {
+  name: string;
+  kind: SymbolKind;
+  // Other names that lead to this symbol, like the `createWorkflow` factory of `Workflow`
+  aliases: string[];
+  // Docs path of the reference page, with the section anchor for symbols documented in a section
+  path: string;
+  description: string;
+  // Module the symbol (or the class of a method) is imported from, like `@mastra/core/agent`
+  importPath: string | null;
+  signature: string | null;
+  parameters: ParameterGroup[];
+  returns: ParameterGroup[];
+}
+
+export interface SymbolIndex {
+  version: number;
+  symbols: SymbolEntry[];
+  // Names imported from `@mastra/*` anywhere in the docs → the module they are most often imported from
+  importSources: Record<string, string>;
+}
+
+interface CodeBlock {
+  line: number;
+  code: string;
+}
+
+// A symbol documented by a whole page or by the section of a heading, lines are 1-based and the end is exclusive
+interface SymbolSection {
+  entry: SymbolEntry;
+  start: number;
+  end: number;
+}
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*(\.[A-Za-z_$][\w$]*)*$/;
+const METHOD_HEADING = /^\.?([A-Za-z_$][\w$]*)\(\)/;
+const MASTRA_IMPORT = /import\s*(?:type\s+)?\{([^}]+)\}\s*from\s*["'](@mastra\/[^"']+)["']/g;
+
+/**
+ * Turn a page title or heading such as `Reference: Agent.generate() (Experimental)` or `Workflow Class`
+ * into the symbol it documents, or null if it doesn't name one
+ */
+function toSymbolName(text: string): string | null {
+  let name = text
+    .replace(/`/g, '')
+    .replace(/^Reference:\s*/i, '')
+    .split(' | ')[0]
+    .trim();
+  while (/\([^)]*\)$/.test(name)) name = name.replace(/\s*\([^)]*\)$/, '');
+  name = name
+    .replace(/^The\s+/i, '')
+    .replace(/(\s+Class)?(\s+Reference)?$/i, '')
+    .replace(/^\./, '');
+  return IDENTIFIER.test(name) ? name : null;
+}
+
+function extractCodeBlocks(content: string): CodeBlock[] {
+  const blocks: CodeBlock[] = [];
+  let current: { fence: string; line: number; lines: string[] } | null = null;
+  content.split('\n').forEach((line, index) => {
+    const fenceMatch = line.match(/^\s*(```|~~~)/);
+    if (!current) {
+      if (fenceMatch) current = { fence: fenceMatch[1], line: index + 1, lines: [] };
+    } else if (fenceMatch && fenceMatch[1] === current.fence) {
+      blocks.push({ line: current.line, code: current.lines.join('\n') });
+      current = null;
+    } else {
+      current.lines.push(line);
+    }
+  });
+  return blocks;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Names imported from `@mastra/*` packages with the module they come from
+ */
+export function findMastraImports(code: string): Array<[name: string, module: string]> {
+  return Array.from(code.matchAll(MASTRA_IMPORT)).flatMap(match =>
+    match[1]
+      .split(',')
+      .map(specifier =>
+        specifier
+          .replace(/^\s*type\s+/, '')
+          .split(/\s+as\s+/)[0]
+          .trim(),
+      )
+      .filter(Boolean)
+      .map((name): [string, string] => [name, match[2]]),
+  );
+}
+
+// Names imported from `@mastra/*` packages that the code calls or instantiates
+function findUsedMastraImports(code: string): string[] {
+  const imported = findMastraImports(code).map(([name]) => name);
+  return imported.filter(name => new RegExp(`(^|[^.\\w$])${escapeRegExp(name)}\\s*\\(`).test(code));
+}
+
+/**
+ * Find a declaration of `name` in code blocks, like `static fromText(text: string): MDocument`
+ */
+function findDeclaredSignature(blocks: CodeBlock[], name: string): string | null {
+  const declaration = new RegExp(
+    `^\\s*(export\\s+)?((static|async|public|function)\\s+)*${escapeRegExp(name)}\\s*(<[^>]*>)?\\(`,
+  );
+  for (const block of blocks) {
+    const lines = block.code.split('\n');
+    const start = lines.findIndex(line => declaration.test(line));
+    if (start === -1) continue;
+
+    // Declarations may spread their parameters over several lines
+    let signature = '';
+    let depth = 0;
+    for (const line of lines.slice(start, start + 20)) {
+      signature += (signature ? ' ' : '') + line.trim();
+      depth += (line.match(/\(/g) ?? []).length - (line.match(/\)/g) ?? []).length;
+      if (depth <= 0) break;
+    }
+    // A call with arguments in a usage example isn't a declaration, declarations have typed parameters or a return type
+    if (/\)\s*:|\w\??:\s*\w/.test(signature)) return signature.replace(/[;{]\s*$/, '').trim();
+  }
+  return null;
+}
+
+function formatParameters(properties: PropertyDefinition[]): string {
+  return properties
+    .filter(property => property.name)
+    .map(property => `${property.name}${property.isOptional ? '?' : ''}${property.type ? `: ${property.type}` : ''}`)
+    .join(', ');
+}
+
+/**
+ * Build a signature from the documented parameters when the page doesn't spell one out
+ */
+function synthesizeSignature(entry: SymbolEntry): string | null {
+  if (entry.kind === 'class') {
+    // Classes take a config object, documented as the constructor parameters
+    const constructor =
+      entry.parameters.find(group => /constructor/i.test(group.heading)) ??
+      entry.parameters.find(group => /^(parameters|options|config)/i.test(group.heading));
+    if (!constructor) return null;
+    const fields = constructor.properties
+      .filter(property => property.name)
+      .map(property => `${property.name}${property.isOptional ? '?' : ''}`);
+    return `new ${entry.name}({ ${fields.join(', ')} })`;
+  }
+  if (entry.kind === 'type') return null;
+
+  const parameters =
+    entry.parameters.find(group => /^(parameters|arguments|params)$/i.test(group.heading)) ??
+    entry.parameters.find(group => /param|argument/i.test(group.heading));
+  return `${entry.name}(${parameters ? formatParameters(parameters.properties) : ''})`;
+}
+
+// First paragraph line below a heading, used to describe symbols documented in a section
+function describeSection(lines: string[], headingLine: number, end: number): string {
+  for (const line of lines.slice(headingLine, end - 1)) {
+    const text = line.trim();
+    if (!text) continue;
+    return /^(```|~~~|<|\||#)/.test(text) ? '' : text;
+  }
+  return '';
+}
+
+function innermostSection(sections: SymbolSection[], line: number): SymbolSection | undefined {
+  return sections
+    .filter(section => line >= section.start && line < section.end)
+    .sort((a, b) => b.start - a.start || a.end - b.end)[0];
+}
+
+function sectionEnd(headings: Heading[], index: number, lastLine: number): number {
+  const next = headings.slice(index + 1).find(heading => heading.depth <= headings[index].depth);
+  return next ? next.line : lastLine + 1;
+}
+
+/**
+ * Extract the symbols documented by a reference page: the page's own symbol (from its title or the
+ * first thing its usage example instantiates), methods documented in `name()` sections, and methods
+ * listed in "Methods" property tables. Each gets the property tables of its section.
+ */
+export function extractPageSymbols(docPath: string, content: string): SymbolEntry[] {
+  const { data } = parseFrontmatter(content);
+  const headings = extractHeadings(content);
+  const lines = content.split('\n');
+  const codeBlocks = extractCodeBlocks(content);
+  const usage = codeBlocks[0]?.code ?? '';
+  const pageHeading = headings.find(heading => heading.depth === 1);
+
+  const titleName = toSymbolName(data.title ?? '') ?? (pageHeading ? toSymbolName(pageHeading.text) : null);
+  const usedImports = findUsedMastraImports(usage);
+  const pageImports = new Map(findMastraImports(codeBlocks.map(block => block.code).join('\n')).reverse());
+  const instantiated = usedImports.filter(imported =>
+    new RegExp(`new\\s+${escapeRegExp(imported)}\\s*\\(`).test(usage),
+  );
+  const documentedName = titleName ?? instantiated[0];
+  if (!documentedName) return [];
+
+  let name = documentedName;
+  const aliases = new Set<string>();
+  // Provider pages are titled by the provider (`Azure`) but document the class it exports (`AzureVoice`)
+  const exportedClass = instantiated.find(imported => imported !== name && imported.includes(documentedName));
+  if (exportedClass) {
+    aliases.add(name);
+    name = exportedClass;
+  }
+  // Methods documented on their own page are often titled by the bare method name
+  if (!name.includes('.') && /^[a-z]/.test(name)) {
+    for (const [, variable, className] of usage.matchAll(/(\w+)\s*=\s*new\s+([A-Z][\w$]*)\s*\(/g)) {
+      if (new RegExp(`\\b${escapeRegExp(variable)}\\.${escapeRegExp(name)}\\s*\\(`).test(usage)) {
+        aliases.add(name);
+        name = `${className}.${name}`;
+        break;
+      }
+    }
+  }
+  const baseName = name.split('.').pop()!;
+  for (const imported of usedImports) {
+    if (imported !== name && imported.toLowerCase().includes(baseName.toLowerCase())) aliases.add(imported);
+  }
+
+  const isClass =
+    /\bClass\b/.test(`${data.title ?? ''} ${pageHeading?.text ?? ''}`) ||
+    new RegExp(`new\\s+${escapeRegExp(name)}\\s*\\(`).test(usage) ||
+    headings.some(heading => /constructor/i.test(heading.text));
+  const kind: SymbolKind = name.includes('.')
+    ? 'method'
+    : /^[A-Z]/.test(name)
+      ? isClass
+        ? 'class'
+        : 'type'
+      : 'function';
+
+  const pageEntry: SymbolEntry = {
+    name,
+    kind,
+    aliases: Array.from(aliases),
+    path: docPath,
+    description: data.description ?? '',
+    importPath:
+      [name.split('.')[0], documentedName, ...aliases].map(candidate => pageImports.get(candidate)).find(Boolean) ??
+      null,
+    signature: null,
+    parameters: [],
+    returns: [],
+  };
+  const sections: SymbolSection[] = [{ entry: pageEntry, start: 1, end: lines.length + 1 }];
+
+  headings.forEach((heading, index) => {
+    const methodMatch = heading.text.replace(/`/g, '').match(METHOD_HEADING);
+    const parent = headings
+      .slice(0, index)
+      .reverse()
+      .find(candidate => candidate.depth < heading.depth);
+    const underMethods = !!parent && /methods/i.test(parent.text);
+    const methodName = methodMatch?.[1] ?? (underMethods && IDENTIFIER.test(heading.text) ? heading.text : null);
+    if (heading.depth === 1 || !methodName || methodName === baseName) return;
+
+    const end = sectionEnd(headings, index, lines.length);
+    sections.push({
+      entry: {
+        name: `${name}.${methodName}`,
+        kind: 'method',
+        aliases: [],
+        path: `${docPath}#${heading.slug}`,
+        description: describeSection(lines, heading.line, end),
+        importPath: pageEntry.importPath,
+        signature: null,
+        parameters: [],
+        returns: [],
+      },
+      start: heading.line,
+      end,
+    });
+  });
+
+  const methodEntries: SymbolEntry[] = [];
+  for (const table of extractPropertiesTables(content)) {
+    const heading = [...headings].reverse().find(candidate => candidate.line < table.line);
+    const headingText = heading?.text.replace(/`/g, '') ?? '';
+    const owner = innermostSection(sections, table.line) ?? sections[0];
+
+    // "Methods" tables name each method with its parameters, like `getAgent(name)`
+    const methodProperties = table.properties.filter(property => /^[\w$]+\(.*\)$/.test(property.name ?? ''));
+    if (/methods/i.test(headingText) && methodProperties.length === table.properties.length) {
+      for (const property of methodProperties) {
+        const methodName = property.name!.slice(0, property.name!.indexOf('('));
+        methodEntries.push({
+          name: `${owner.entry.name}.${methodName}`,
+          kind: 'method',
+          aliases: [],
+          path: heading ? `${docPath}#${heading.slug}` : docPath,
+          description: property.description ?? '',
+          importPath: owner.entry.importPath,
+          signature: `${property.name}${property.type ? `: ${property.type}` : ''}`,
+          parameters: [],
+          returns: [],
+        });
+      }
+      continue;
+    }
+
+    const group = { heading: headingText, properties: table.properties };
+    if (/^returns?\b/i.test(headingText)) owner.entry.returns.push(group);
+    else owner.entry.parameters.push(group);
+  }
+
+  for (const section of sections) {
+    const nested = sections.filter(
+      other => other !== section && other.start > section.start && other.end <= section.end,
+    );
+    const blocks = codeBlocks.filter(
+      block =>
+        block.line >= section.start &&
+        block.line < section.end &&
+        !nested.some(other => block.line >= other.start && block.line < other.end),
+    );
+    const declaredName = section.entry.name.split('.').pop()!;
+    section.entry.signature = findDeclaredSignature(blocks, declaredName) ?? synthesizeSignature(section.entry);
+  }
+
+  return [...sections.map(section => section.entry), ...methodEntries];
+}
+
+async function* walkMdxFiles(dir: string): AsyncGenerator<string> {
+  const entries = await fs.readdir(dir, { withFileTypes: true });
+  for (const entry of entries) {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      yield* walkMdxFiles(fullPath);
+    } else if (entry.isFile() && entry.name.endsWith('.mdx')) {
+      yield fullPath;
+    }
+  }
+}
+
+/**
+ * Index the symbols documented in the `reference/` directory of the docs, and where the names
+ * imported from `@mastra/*` in code samples across all docs come from
+ */
+export async function buildSymbolIndex(docsDir: string): Promise<SymbolIndex> {
+  const symbols: SymbolEntry[] = [];
+  const importCounts = new Map<string, Map<string, number>>();
+  for await (const filePath of walkMdxFiles(docsDir)) {
+    const docPath = path.relative(docsDir, filePath).replace(/\\/g, '/');
+    const content = await fs.readFile(filePath, 'utf-8');
+    for (const [name, module] of findMastraImports(content)) {
+      const counts = importCounts.get(name) ?? new Map<string, number>();
+      counts.set(module, (counts.get(module) ?? 0) + 1);
+      importCounts.set(name, counts);
+    }
+    // Section overviews don't document a symbol of their own
+    if (!docPath.startsWith('reference/') || path.basename(filePath) === 'index.mdx') continue;
+    symbols.push(...extractPageSymbols(docPath, content));
+  }
+
+  const importSources: Record<string, string> = {};
+  for (const [name, counts] of Array.from(importCounts).sort(([a], [b]) => a.localeCompare(b))) {
+    importSources[name] = Array.from(counts).sort(([a, x], [b, y]) => y - x || a.localeCompare(b))[0][0];
+  }
+  for (const symbol of symbols) {
+    const root = symbol.name.split('.')[0];
+    symbol.importPath ??= Object.hasOwn(importSources, root) ? importSources[root] : null;
+  }
+
+  symbols.sort((a, b) => a.name.localeCompare(b.name) || a.path.localeCompare(b.path));
+  return { version: SYMBOL_INDEX_VERSION, symbols, importSources };
+}
+
+/**
+ * Read a persisted symbol index, returning null when it is missing or was built by an incompatible version
+ */
+export async function readSymbolIndex(indexPath: string): Promise<SymbolIndex | null> {
+  try {
+    const index = JSON.parse(await fs.readFile(indexPath, 'utf-8')) as SymbolIndex;
+    return index.version === SYMBOL_INDEX_VERSION ? index : null;
+  } catch {
+    return null;
+  }
+}
+
+// Accept what users type: `new Agent()`, `agent.generate()`, `.chunk`
+function normalizeSymbolQuery(query: string): string {
+  return query
+    .trim()
+    .replace(/^new\s+/, '')
+    .replace(/\(.*\)$/, '')
+    .replace(/^\./, '')
+    .toLowerCase();
+}
+
+/**
+ * Find the symbols matching `query`: exact names first, then aliases, then methods by their bare name
+ */
+export function findSymbols(index: SymbolIndex, query: string): SymbolEntry[] {
+  const normalized = normalizeSymbolQuery(query);
+  const tiers = [
+    (entry: SymbolEntry) => entry.name.toLowerCase() === normalized,
+    (entry: SymbolEntry) => entry.aliases.some(alias => alias.toLowerCase() === normalized),
+    (entry: SymbolEntry) => entry.name.toLowerCase().endsWith(`.${normalized}`),
+  ];
+  // Pages named after the symbol come before pages that only use it in their example
+  const namesPage = (entry: SymbolEntry) => {
+    const page = path.posix.basename(entry.path.split('#')[0], '.mdx').replace(/[-_]/g, '').toLowerCase();
+    const name = entry.name.split('.')[0].toLowerCase();
+    return name.includes(page) || page.includes(name);
+  };
+  for (const matches of tiers) {
+    const found = index.symbols.filter(matches);
+    if (found.length > 0) return found.sort((a, b) => Number(namesPage(b)) - Number(namesPage(a)));
+  }
+  return [];
+}
+
+/**
+ * Symbol names that contain the query, share its last segment or are a typo away from it,
+ * for "did you mean" suggestions
+ */
+export function suggestSymbols(index: SymbolIndex, query: string, limit = 10): string[] {
+  const normalized = normalizeSymbolQuery(query);
+  const lastSegment = normalized.split('.').pop() ?? normalized;
+  const maxDistance = lastSegment.length >= 8 ? 2 : 1;
+  const scored = index.symbols.flatMap(entry => {
+    const lower = entry.name.toLowerCase();
+    if (lower.includes(normalized)) return [{ name: entry.name, score: 0 }];
+    if (lastSegment.length >= 3 && lower.includes(lastSegment)) return [{ name: entry.name, score: 1 }];
+    const distance = Math.min(
+      ...[entry.name, ...entry.aliases].map(name => {
+        const candidate = name.toLowerCase();
+        return editDistance(lastSegment, candidate.split('.').pop() ?? candidate, maxDistance);
+      }),
+    );
+    return distance <= maxDistance ? [{ name: entry.name, score: 1 + distance }] : [];
+  });
+  scored.sort((a, b) => a.score - b.score);
+  return Array.from(new Set(scored.map(({ name }) => name))).slice(0, limit);
+}
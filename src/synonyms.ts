@@ -0,0 +1,67 @@
+export interface SynonymEntry {
+  // Terms and phrases that mean the same thing. A query containing any of them is expanded with the others.
+  aliases: string[];
+  // Docs path prefixes that cover the topic, ranked higher when any alias appears in the query
+  paths?: string[];
+}
+
+/**
+ * Aliases for Mastra concepts that docs and users commonly spell differently
+ */
+export const SYNONYMS: SynonymEntry[] = [
+  {
+    aliases: ['mcp', 'model context protocol', 'mcp server', 'mcp client'],
+    paths: ['reference/tools/', 'tools-mcp/'],
+  },
+  {
+    aliases: ['rag', 'retrieval augmented generation', 'retrieval'],
+    paths: ['rag/', 'reference/rag/'],
+  },
+  {
+    aliases: ['embedding', 'vector', 'vector store', 'vector database', 'vector db'],
+    paths: ['rag/', 'reference/rag/'],
+  },
+  {
+    aliases: ['memory', 'conversation history', 'thread', 'working memory', 'semantic recall'],
+    paths: ['memory/', 'reference/memory/'],
+  },
+  {
+    aliases: ['eval', 'evaluation', 'metric', 'scorer'],
+    paths: ['evals/', 'scorers/', 'reference/evals/', 'reference/scorers/'],
+  },
+  {
+    aliases: ['tts', 'text to speech', 'speech synthesis'],
+    paths: ['voice/', 'reference/voice/'],
+  },
+  {
+    aliases: ['stt', 'speech to text', 'transcription', 'transcribe'],
+    paths: ['voice/', 'reference/voice/'],
+  },
+  {
+    aliases: ['deploy', 'deployment', 'deployer', 'hosting'],
+    paths: ['deployment/', 'reference/deployer/'],
+  },
+  {
+    aliases: ['observability', 'telemetry', 'tracing', 'otel', 'opentelemetry'],
+    paths: ['observability/', 'reference/observability/'],
+  },
+  {
+    aliases: ['storage', 'database', 'db'],
+    paths: ['server-db/', 'reference/storage/'],
+  },
+  {
+    aliases: ['auth', 'authentication', 'authorization', 'jwt'],
+    paths: ['auth/', 'reference/auth/'],
+  },
+  {
+    aliases: ['human in the loop', 'hitl', 'suspend', 'resume'],
+    paths: ['workflows/', 'reference/workflows/'],
+  },
+  {
+    aliases: ['agent network', 'multi agent', 'vnext network'],
+    paths: ['networks-vnext/', 'reference/networks/'],
+  },
+  {
+    aliases: ['llm', 'model provider', 'language model'],
+  },
+];
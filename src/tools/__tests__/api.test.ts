@@ -0,0 +1,53 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { callTool, mcp } from './test-setup';
+
+describe('apiTool', () => {
+  let tools: any;
+
+  beforeAll(async () => {
+    tools = await mcp.getTools();
+  });
+
+  afterAll(async () => {
+    await mcp.disconnect();
+  });
+
+  describe('execute', () => {
+    it('should return the constructor signature and parameters of a class', async () => {
+      const result = await callTool(tools.mastra_mastraApi, { symbol: 'Agent' });
+      expect(result).toContain('## Agent (class)');
+      expect(result).toContain('Source: reference/agents/agent.mdx');
+      expect(result).toMatch(/new Agent\(\{ .*instructions.* \}\)/);
+      expect(result).toMatch(/\| `model` \| `[^|]+` \| Yes \|/);
+    });
+
+    it('should resolve factory functions to the symbol they create', async () => {
+      const result = await callTool(tools.mastra_mastraApi, { symbol: 'createWorkflow' });
+      expect(result).toContain('## Workflow (class)');
+      expect(result).toContain('reference/workflows/workflow.mdx');
+    });
+
+    it('should return documented method signatures', async () => {
+      const result = await callTool(tools.mastra_mastraApi, { symbol: 'MDocument.fromText' });
+      expect(result).toContain('## MDocument.fromText (method)');
+      expect(result).toContain('static fromText(');
+      expect(result).toContain('https://mastra.ai/en/reference/rag/document');
+    });
+
+    it('should narrow down ambiguous names by category', async () => {
+      const all = await callTool(tools.mastra_mastraApi, { symbol: 'getAgent' });
+      expect(all).toContain('Mastra.getAgent');
+      expect(all).toContain('MastraClient.getAgent');
+
+      const core = await callTool(tools.mastra_mastraApi, { symbol: 'getAgent', category: 'core' });
+      expect(core).toContain('Mastra.getAgent');
+      expect(core).not.toContain('MastraClient.getAgent');
+    });
+
+    it('should suggest close matches for unknown symbols', async () => {
+      const result = await callTool(tools.mastra_mastraApi, { symbol: 'Agent.genrate' });
+      expect(result).toContain('No API reference found for "Agent.genrate"');
+      expect(result).toContain('- Agent.generate');
+    });
+  });
+});
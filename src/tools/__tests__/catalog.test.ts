@@ -0,0 +1,56 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { callTool, mcp } from './test-setup';
+
+describe('catalogTool', () => {
+  let tools: any;
+
+  beforeAll(async () => {
+    tools = await mcp.getTools();
+  });
+
+  afterAll(async () => {
+    await mcp.disconnect();
+  });
+
+  describe('execute', () => {
+    it('should list the packages of a category matching a query', async () => {
+      const result = await callTool(tools.mastra_mastraCatalog, { category: 'stores', query: 'vector' });
+      expect(result).toContain('## stores');
+      expect(result).toMatch(/- \*\*@mastra\/pg\*\* \d+\.\d+\.\d+/);
+      expect(result).not.toContain('@mastra/core');
+      expect(result).not.toContain('## deployers');
+    });
+
+    it('should list the available deployers', async () => {
+      const result = await callTool(tools.mastra_mastraCatalog, { category: 'deployers' });
+      expect(result).toContain('@mastra/deployer-vercel');
+      expect(result).toContain('@mastra/deployer-cloudflare');
+    });
+
+    it('should filter packages by peer dependency', async () => {
+      const result = await callTool(tools.mastra_mastraCatalog, { peerDependency: '@mastra/core' });
+      expect(result).toContain('@mastra/memory');
+      expect(result).not.toMatch(/- \*\*@mastra\/core\*\*/);
+    });
+
+    it('should describe one package by a loosely written name', async () => {
+      const result = await callTool(tools.mastra_mastraCatalog, { name: 'postgres' });
+      expect(result).toContain('# @mastra/pg');
+      expect(result).toContain('- Category: stores (stores/pg)');
+      expect(result).toMatch(/- Peer dependencies: .*@mastra\/core/);
+    });
+
+    it('should include the README of a package', async () => {
+      const result = await callTool(tools.mastra_mastraCatalog, { name: 'mastra-pg' });
+      expect(result).toContain('# @mastra/pg');
+      expect(result).toContain('\n---\n');
+      expect(result).toMatch(/install @mastra\/pg/);
+    });
+
+    it('should list the categories when one is unknown', async () => {
+      const result = await callTool(tools.mastra_mastraCatalog, { category: 'databases' });
+      expect(result).toContain('Unknown category "databases"');
+      expect(result).toContain('stores');
+    });
+  });
+});
@@ -42,6 +42,35 @@ describe('changesTool', () => {
       expect(result).toContain('@mastra/core'); // Should list available packages
     });
 
+    it('should resolve a loosely written package name to the package it clearly refers to', async () => {
+      for (const packageName of ['core', 'mastra-core', '@mastra/core.md']) {
+        const result = await callTool(tools.mastra_mastraChanges, { package: packageName });
+        expect(result).toContain('# @mastra/core');
+      }
+
+      const alias = await callTool(tools.mastra_mastraChanges, { package: '@mastra/postgres' });
+      expect(alias).toMatch(/^Showing @mastra\/pg, the closest match to "@mastra\/postgres"\./);
+      expect(alias).toContain('# @mastra/pg');
+
+      const typo = await callTool(tools.mastra_mastraChanges, { package: 'memroy' });
+      expect(typo).toContain('# @mastra/memory');
+    });
+
+    it('should suggest the closest packages when a name is ambiguous', async () => {
+      const result = await callTool(tools.mastra_mastraChanges, { package: 'deploy' });
+      expect(result).toContain('Changelog for "deploy" not found');
+      expect(result).toMatch(/Did you mean:\n- @mastra\/deployer\n/);
+      expect(result).toContain('- @mastra/deployer-vercel');
+      expect(result).not.toContain('Available packages:');
+    });
+
+    it('should suggest rather than serve a typo of a short name', async () => {
+      const result = await callTool(tools.mastra_mastraChanges, { package: 'ram' });
+      expect(result).toContain('Changelog for "ram" not found');
+      expect(result).toContain('- @mastra/rag');
+      expect(result).not.toContain('# @mastra/rag');
+    });
+
     it('should properly handle special characters in package names', async () => {
       // Test with a package name containing special characters that need URL encoding
       const result = await callTool(tools.mastra_mastraChanges, { package: '@mastra/client-js' });
@@ -126,6 +155,123 @@ describe('changesTool', () => {
       });
     });
 
+    it('should page through a changelog by offset', async () => {
+      const result = await callTool(tools.mastra_mastraChanges, { package: '@mastra/core', offset: 1 });
+      expect(result).toMatch(/^# @mastra\/core\n\n## 0\.15\.3-alpha\.8\n/);
+      expect(result).not.toContain('## 0.15.3-alpha.9');
+      expect(result).toMatch(/\[Showing releases 2-\d+ of \d+ \(0\.15\.3-alpha\.8 to .+\)\./);
+    });
+
+    it('should start a changelog page at a version', async () => {
+      const result = await callTool(tools.mastra_mastraChanges, { package: '@mastra/core', version: '0.15.0' });
+      expect(result).toMatch(/^# @mastra\/core\n\n## 0\.15\.0\n/);
+      expect(result).not.toContain('## 0.15.2');
+
+      const missing = await callTool(tools.mastra_mastraChanges, { package: '@mastra/core', version: '0.15.1' });
+      expect(missing).toContain('Version 0.15.1 is not in the changelog, starting at 0.15.0');
+    });
+
+    it('should report an offset past the last release', async () => {
+      const result = await callTool(tools.mastra_mastraChanges, { package: '@mastra/core', offset: 10000 });
+      expect(result).toContain('Offset 10000 is past the last release of @mastra/core');
+    });
+
+    it('should return changes between two versions grouped by change type', async () => {
+      const result = await callTool(tools.mastra_mastraChanges, {
+        package: '@mastra/core',
+        since: '0.14.0',
+        until: '0.15.0',
+      });
+      expect(result).toContain('# @mastra/core: changes after 0.14.0 up to 0.15.0');
+      expect(result).toContain('Releases (2): 0.15.0, 0.14.1');
+      expect(result).toMatch(/## Minor changes \(\d+\)/);
+      expect(result).toMatch(/## Patch changes \(\d+\)/);
+      expect(result.indexOf('## Minor changes')).toBeLessThan(result.indexOf('## Patch changes'));
+      expect(result).toMatch(/- \*\*0\.15\.0\*\* .+ \(#\d+\)/);
+      expect(result).not.toContain('**0.14.0**');
+      expect(result).not.toContain('-alpha.');
+    });
+
+    it('should include prereleases when asked to', async () => {
+      const stable = await callTool(tools.mastra_mastraChanges, { package: '@mastra/core', since: '0.15.2' });
+      expect(stable).toContain('Only prereleases of @mastra/core were published after 0.15.2');
+
+      const result = await callTool(tools.mastra_mastraChanges, {
+        package: '@mastra/core',
+        since: '0.15.2',
+        includePrereleases: true,
+      });
+      expect(result).toContain('**0.15.3-alpha.0**');
+    });
+
+    it('should report the changes of every package between two core versions', async () => {
+      const result = await callTool(tools.mastra_mastraChanges, { since: '0.14.0', until: '0.15.0' });
+      expect(result).toContain('# Upgrade report: @mastra/core after 0.14.0 up to 0.15.0');
+      expect(result).toContain('No breaking changes.');
+      expect(result).toContain('## Other changes');
+      expect(result).toMatch(/### @mastra\/core \(0\.14\.1 → 0\.15\.0\)/);
+      expect(result).toMatch(/### @mastra\/memory \(/);
+      expect(result).not.toContain('Updated dependencies');
+    });
+
+    it('should list breaking changes as a checklist with the version they landed in', async () => {
+      const result = await callTool(tools.mastra_mastraChanges, { package: '@mastra/mssql', only: 'breaking' });
+      expect(result).toContain('# Breaking changes: @mastra/mssql');
+      expect(result).toMatch(/- \[ \] \*\*0\.3\.0\*\* \(breaking\) feat\(mssql\): .+/);
+      expect(result).not.toContain('(deprecation)');
+    });
+
+    it('should not treat minor changes of 0.x packages as breaking unless they say so', async () => {
+      const result = await callTool(tools.mastra_mastraChanges, {
+        package: '@mastra/core',
+        only: 'breaking',
+        since: '0.14.0',
+      });
+      expect(result).toContain('No breaking changes found for @mastra/core after 0.14.0.');
+    });
+
+    it('should list deprecations and removals across packages', async () => {
+      const result = await callTool(tools.mastra_mastraChanges, {
+        only: 'breaking-or-deprecated',
+        includePrereleases: true,
+      });
+      expect(result).toContain('# Breaking changes and deprecations: all packages');
+      expect(result).toMatch(/## @mastra\/core\n/);
+      expect(result).toMatch(/\(breaking, removal\) BREAKING\(@mastra\/core, all vector stores\)/);
+      expect(result).toMatch(/\(deprecation\) .*Deprecate integrations in favor of mcp/);
+    });
+
+    it('should search every changelog by pull request, commit or words', async () => {
+      const byPullRequest = await callTool(tools.mastra_mastraChanges, { query: '#7032' });
+      expect(byPullRequest).toContain('## @mastra/core');
+      expect(byPullRequest).toMatch(
+        /\*\*0\.15\.0\*\* Bump zod peerdep .*\(#7032\) — first published in 0\.15\.0-alpha\.4/,
+      );
+
+      const byCommit = await callTool(tools.mastra_mastraChanges, { query: 'a7292b0' });
+      expect(byCommit).toContain('## @mastra/pinecone');
+      expect(byCommit).toContain('(a7292b0)');
+
+      const byWords = await callTool(tools.mastra_mastraChanges, { query: 'AI tracing', package: '@mastra/core' });
+      expect(byWords).toContain('# Changelog entries matching "AI tracing"');
+      expect(byWords).not.toContain('## @mastra/memory');
+      for (const line of (byWords as string).split('\n').filter(line => line.startsWith('- '))) {
+        expect(line.toLowerCase()).toContain('ai');
+        expect(line.toLowerCase()).toContain('tracing');
+      }
+
+      const none = await callTool(tools.mastra_mastraChanges, { query: 'no-such-change-anywhere' });
+      expect(none).toBe('No changelog entries match "no-such-change-anywhere".');
+    });
+
+    it('should reject invalid version bounds', async () => {
+      const result = await callTool(tools.mastra_mastraChanges, { package: '@mastra/core', until: 'latest' });
+      expect(result).toContain('Invalid version "latest"');
+
+      const report = await callTool(tools.mastra_mastraChanges, { sinceDate: 'last week' });
+      expect(report).toContain('Invalid date "last week"');
+    });
+
     it('should handle empty changelog files gracefully', async () => {
       // Mock the filesystem response for an empty changelog
       const originalGetChangelog = tools.mastra_mastraChanges.getChangelog;
@@ -1,4 +1,6 @@
+import fs from 'node:fs/promises';
 import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { fromPackageRoot } from '../../utils.js';
 import { callTool, mcp } from './test-setup';
 
 describe('docsTool', () => {
@@ -40,6 +42,44 @@ describe('docsTool', () => {
       expect(result).toContain('Here are all available paths');
     });
 
+    it('should show page titles and descriptions in directory listings', async () => {
+      const result = await callTool(tools.mastra_mastraDocs, { paths: ['agents'] });
+      expect(result).toMatch(/- overview\.mdx — Agent Overview: Overview of agents in Mastra/);
+      expect(result).not.toContain('| Agent Documentation');
+    });
+
+    it('should refuse paths that resolve outside the docs directory', async () => {
+      const result = await callTool(tools.mastra_mastraDocs, { paths: ['../../package.json'] });
+      const error = JSON.parse(result.split('\n\n')[1]).error;
+      expect(error.code).toBe('PATH_OUTSIDE_ROOT');
+      expect(error.path).toBe('../../package.json');
+      expect(result).not.toContain('"name": "@mastra/mcp-docs-server"');
+    });
+
+    it('should refuse percent-encoded traversal', async () => {
+      for (const encoded of ['%2e%2e/%2e%2e/package.json', '%252e%252e%252f%252e%252e%252fpackage.json']) {
+        const result = await callTool(tools.mastra_mastraDocs, { paths: [encoded] });
+        expect(result).toContain('"code": "PATH_OUTSIDE_ROOT"');
+      }
+    });
+
+    it('should refuse symlinks that point outside the docs directory', async () => {
+      const linkPath = fromPackageRoot('.docs/raw/escape-link');
+      await fs.symlink(fromPackageRoot('.'), linkPath);
+      try {
+        const result = await callTool(tools.mastra_mastraDocs, { paths: ['escape-link/package.json'] });
+        expect(result).toContain('"code": "PATH_OUTSIDE_ROOT"');
+        expect(result).not.toContain('"name": "@mastra/mcp-docs-server"');
+      } finally {
+        await fs.rm(linkPath);
+      }
+    });
+
+    it('should allow parent segments that stay inside the docs directory', async () => {
+      const result = await callTool(tools.mastra_mastraDocs, { paths: ['agents/../index.mdx'] });
+      expect(result).toContain('# About Mastra');
+    });
+
     it('should handle multiple paths in a single request', async () => {
       const result = await callTool(tools.mastra_mastraDocs, {
         paths: ['index.mdx', 'reference/tools'],
@@ -67,14 +107,140 @@ describe('docsTool', () => {
       expect(result).toContain('# MDocument');
     });
 
+    it('should rewrite internal links to docs paths and include the canonical URL', async () => {
+      const result = await callTool(tools.mastra_mastraDocs, { paths: ['agents/overview.mdx'] });
+      expect(result).toContain('Canonical URL: https://mastra.ai/en/docs/agents/overview');
+      expect(result).toContain('](reference/agents/agent.mdx)');
+      expect(result).toContain('](https://mastra.ai/en/examples/agents/calling-agents)');
+      expect(result).not.toMatch(/\]\(\.\.\//);
+    });
+
+    it('should return the untouched source with the canonical URL above it in raw format', async () => {
+      const source = await fs.readFile(fromPackageRoot('.docs/raw/agents/overview.mdx'), 'utf-8');
+      const result = await callTool(tools.mastra_mastraDocs, { paths: ['agents/overview.mdx'], format: 'raw' });
+      expect(result).toContain(`Canonical URL: https://mastra.ai/en/docs/agents/overview\n\n${source}`);
+    });
+
+    it('should resolve paths regardless of case and extension and report the served path', async () => {
+      const result = await callTool(tools.mastra_mastraDocs, { paths: ['Agents/Overview'] });
+      expect(result).toContain('Served "agents/overview.mdx" (resolved from "Agents/Overview").');
+      expect(result).toContain('Canonical URL: https://mastra.ai/en/docs/agents/overview');
+
+      const withoutExtension = await callTool(tools.mastra_mastraDocs, {
+        paths: ['reference/rag/document#constructor'],
+      });
+      expect(withoutExtension).toContain('Served "reference/rag/document.mdx#constructor"');
+      expect(withoutExtension).toContain('| `docs` |');
+    });
+
     it('should handle MDX files with custom components', async () => {
-      const result = await callTool(tools.mastra_mastraDocs, { paths: ['reference/rag/document.mdx'] });
+      const result = await callTool(tools.mastra_mastraDocs, { paths: ['reference/rag/document.mdx'], format: 'raw' });
       expect(result).toContain('<PropertiesTable');
       expect(result).toContain('content={[');
       expect(result).toContain('name:');
       expect(result).toContain('type:');
       expect(result).toContain('description:');
     });
+    it('should return only the requested section for a heading anchor', async () => {
+      const result = await callTool(tools.mastra_mastraDocs, { paths: ['reference/rag/document.mdx#constructor'] });
+      expect(result).toContain('## reference/rag/document.mdx#constructor');
+      expect(result).toContain('## Constructor');
+      expect(result).toContain('| `docs` |');
+      expect(result).not.toContain('# MDocument\n');
+      expect(result).not.toContain('## Static Methods');
+    });
+
+    it('should include subsections of the requested section', async () => {
+      const result = await callTool(tools.mastra_mastraDocs, { paths: ['reference/rag/document.mdx#static-methods'] });
+      expect(result).toContain('## Static Methods');
+      expect(result).toContain('### fromText()');
+    });
+
+    it('should list available anchors when the anchor does not exist', async () => {
+      const result = await callTool(tools.mastra_mastraDocs, { paths: ['reference/rag/document.mdx#non-existent'] });
+      expect(result).toContain('Anchor "#non-existent" not found in "reference/rag/document.mdx"');
+      expect(result).toContain('- reference/rag/document.mdx#constructor');
+    });
+
+    it('should split large directory contents into pages', async () => {
+      const result = await callTool(tools.mastra_mastraDocs, { paths: ['reference/rag'], maxChars: 2000 });
+      expect(result).toContain('Directory contents of reference/rag');
+      expect(result).toMatch(/\[Showing characters 1-\d+ of \d+\. More content is available/);
+      expect(result).toMatch(/cursor "[A-Za-z0-9_-]+"/);
+    });
+
+    it('should return the next page when given a cursor', async () => {
+      const firstPage = await callTool(tools.mastra_mastraDocs, { paths: ['reference/rag'], maxTokens: 500 });
+      const cursor = firstPage.match(/cursor "([A-Za-z0-9_-]+)"/)?.[1];
+      expect(cursor).toBeDefined();
+
+      const secondPage = await callTool(tools.mastra_mastraDocs, { paths: ['reference/rag'], maxTokens: 500, cursor });
+      expect(secondPage).not.toContain('Directory contents of reference/rag');
+      expect(secondPage).toMatch(/\[Showing characters \d+-\d+ of \d+/);
+    });
+
+    it('should return the same pages for the same request', async () => {
+      const first = await callTool(tools.mastra_mastraDocs, { paths: ['reference/rag'], maxChars: 3000 });
+      const second = await callTool(tools.mastra_mastraDocs, { paths: ['reference/rag'], maxChars: 3000 });
+      expect(first).toBe(second);
+    });
+
+    it('should reject invalid cursors', async () => {
+      const result = await callTool(tools.mastra_mastraDocs, { paths: ['reference/rag'], cursor: 'not-a-cursor' });
+      expect(result).toContain('Invalid cursor "not-a-cursor"');
+    });
+
+    it('should render custom components as markdown by default', async () => {
+      const result = await callTool(tools.mastra_mastraDocs, { paths: ['reference/rag/document.mdx'] });
+      expect(result).not.toContain('<PropertiesTable');
+      expect(result).toContain('| Name | Type | Required | Default | Description |');
+      expect(result).toContain('| `docs` |');
+    });
+
+    it('should render tabs as labelled sections and drop imports', async () => {
+      const result = await callTool(tools.mastra_mastraDocs, { paths: ['rag/vector-databases.mdx'] });
+      expect(result).not.toMatch(/<Tabs/);
+      expect(result).toContain('**MongoDB:**');
+      expect(result).not.toMatch(/^import .* from ['"]@\/components/m);
+    });
+
+    it('should return the frontmatter and heading tree in outline mode', async () => {
+      const result = await callTool(tools.mastra_mastraDocs, {
+        paths: ['reference/rag/document.mdx'],
+        mode: 'outline',
+      });
+      expect(result).toContain('Title: Reference: MDocument | Document Processing | RAG | Mastra Docs');
+      expect(result).toContain('Description: Documentation for the MDocument class in Mastra');
+      expect(result).toContain('- MDocument (reference/rag/document.mdx#mdocument)');
+      expect(result).toContain('  - Constructor (reference/rag/document.mdx#constructor)');
+      expect(result).not.toContain('static fromText(');
+    });
+
+    it('should keep the page anchors of repeated headings when outlining a section', async () => {
+      const result = await callTool(tools.mastra_mastraDocs, {
+        paths: ['reference/scorers/tool-call-accuracy.mdx#llm-based-tool-call-accuracy-scorer'],
+        mode: 'outline',
+      });
+      expect(result).toContain('  - Parameters (reference/scorers/tool-call-accuracy.mdx#parameters-1)');
+      expect(result).not.toContain('(reference/scorers/tool-call-accuracy.mdx#parameters)');
+    });
+
+    it('should outline every file of a directory in outline mode', async () => {
+      const result = await callTool(tools.mastra_mastraDocs, { paths: ['reference/rag'], mode: 'outline' });
+      expect(result).toContain('Directory contents of reference/rag');
+      expect(result).toContain('Outline of all files in this directory:');
+      expect(result).toContain('(reference/rag/document.mdx#constructor)');
+      expect(result).not.toContain('Contents of all files in this directory:');
+    });
+
+    it('should return the navigation hierarchy in tree mode', async () => {
+      const result = await callTool(tools.mastra_mastraDocs, { paths: [''], mode: 'tree' });
+      expect(result).toContain('Navigation tree of the documentation:');
+      expect(result).toContain('- reference/');
+      expect(result).toMatch(/\n {4}- reference\/rag\/document\.mdx — Reference: MDocument\n/);
+      expect(result).not.toContain('Contents of all files in this directory:');
+    });
+
     it('should work when queryKeywords is an empty array', async () => {
       const result = await callTool(tools.mastra_mastraDocs, { paths: ['reference'], queryKeywords: [] });
       expect(result).toContain('Directory contents of reference');
@@ -134,6 +134,70 @@ describe('examplesTool', () => {
       const result = await callTool(tools.mastra_mastraExamples, { example: 'memory-with-context' });
       expect(result).toMatch(/memory/i);
     });
+    it('should list the files of an example with their line counts', async () => {
+      const result = await callTool(tools.mastra_mastraExamples, { example: 'agent', listFiles: true });
+      expect(result).toMatch(/^Files in example "agent" \(\d+ files, \d+ lines\):/);
+      expect(result).toMatch(/- package\.json \(\d+ lines\)/);
+      expect(result).toMatch(/- mastra\/agents\/index\.ts \(\d+ lines\)/);
+      expect(result).not.toContain('```');
+    });
+
+    it('should return only the chosen files of an example', async () => {
+      const result = await callTool(tools.mastra_mastraExamples, {
+        example: 'agent',
+        files: ['src/mastra/agents/index.ts', 'tools/index.ts'],
+      });
+      expect(result).toMatch(/^### mastra\/agents\/index\.ts\n```typescript\n/);
+      expect(result).toContain('### mastra/tools/index.ts');
+      expect(result).not.toContain('### package.json');
+      expect(result).not.toContain('### mastra/index.ts');
+    });
+
+    it('should list the files of an example when a chosen file does not exist', async () => {
+      const result = await callTool(tools.mastra_mastraExamples, { example: 'agent', files: ['missing.ts'] });
+      expect(result).toContain('File "missing.ts" not found in example "agent".');
+      expect(result).toContain('Files in example "agent"');
+    });
+
+    it('should find the examples that use a package', async () => {
+      const result = await callTool(tools.mastra_mastraExamples, { package: 'pg' });
+      expect(result).toMatch(/^Examples using @mastra\/pg \(\d+\):/);
+      expect(result).toMatch(/- memory-with-pg.*\n {2}Imports .*PgVector.* from @mastra\/pg/);
+      expect(result).not.toContain('- quick-start');
+    });
+
+    it('should find the examples that import an API', async () => {
+      const result = await callTool(tools.mastra_mastraExamples, { api: 'createWorkflow' });
+      expect(result).toContain('Examples importing createWorkflow');
+      expect(result).toContain('Imports createWorkflow from @mastra/core/workflows');
+      expect(result).not.toContain('- memory-with-pg');
+    });
+
+    it('should suggest examples using what an unknown example name mentions', async () => {
+      const result = await callTool(tools.mastra_mastraExamples, { example: 'pg-memory' });
+      expect(result).toContain('Example "pg-memory.md" not found.');
+      expect(result).toMatch(/Examples that might be relevant:\n- memory-with-pg/);
+    });
+
+    it('should refuse example names that resolve outside the examples directory', async () => {
+      for (const example of ['../../../package.json', '%2e%2e%2f%2e%2e%2f%2e%2e%2fpackage.json']) {
+        const result = JSON.parse(await callTool(tools.mastra_mastraExamples, { example }));
+        expect(result.error.code).toBe('PATH_OUTSIDE_ROOT');
+      }
+    });
+
+    it('should refuse examples that are symlinks to files outside the examples directory', async () => {
+      const linkPath = fromPackageRoot('.docs/organized/code-examples/escape-link.md');
+      await fs.symlink(fromPackageRoot('package.json'), linkPath);
+      try {
+        const result = JSON.parse(await callTool(tools.mastra_mastraExamples, { example: 'escape-link' }));
+        expect(result.error.code).toBe('PATH_OUTSIDE_ROOT');
+        expect(result.error.path).toBe('escape-link.md');
+      } finally {
+        await fs.rm(linkPath);
+      }
+    });
+
     it('should work when queryKeywords is an empty array', async () => {
       const result = await callTool(tools.mastra_mastraExamples, { queryKeywords: [] });
       expect(result).toContain('Available code examples:');
@@ -0,0 +1,51 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { callTool, mcp } from './test-setup';
+
+describe('installTool', () => {
+  let tools: any;
+
+  beforeAll(async () => {
+    tools = await mcp.getTools();
+  });
+
+  afterAll(async () => {
+    await mcp.disconnect();
+  });
+
+  describe('execute', () => {
+    it('should resolve an import statement to its package, version and reference page', async () => {
+      const result = await callTool(tools.mastra_mastraInstall, {
+        statement: 'import { Agent } from "@mastra/core/agent";',
+      });
+      expect(result).toContain('## @mastra/core');
+      expect(result).toContain('Install: `pnpm add @mastra/core@latest`');
+      expect(result).toMatch(/Current version: \d+\.\d+\.\d+/);
+      expect(result).toContain('- Agent — reference/agents/agent.mdx');
+    });
+
+    it('should resolve a bare symbol name', async () => {
+      const result = await callTool(tools.mastra_mastraInstall, { statement: 'PgVector' });
+      expect(result).toContain('## @mastra/pg');
+      expect(result).toContain('reference/rag/pg.mdx');
+    });
+
+    it('should combine several imports into one install command', async () => {
+      const result = await callTool(tools.mastra_mastraInstall, {
+        statement: [
+          'import { Memory } from "@mastra/memory";',
+          "import { openai } from '@ai-sdk/openai';",
+          "import { helper } from './helper';",
+        ].join('\n'),
+      });
+      expect(result).toContain('Install all: `pnpm add @mastra/memory@latest @ai-sdk/openai`');
+      expect(result).toContain('Skipped local or built-in modules: ./helper');
+      expect(result).toContain('not a Mastra package');
+    });
+
+    it('should suggest symbols when the package is unknown', async () => {
+      const result = await callTool(tools.mastra_mastraInstall, { statement: 'Agnt' });
+      expect(result).toContain(`Couldn't find the package that exports "Agnt"`);
+      expect(result).toContain('- Agent');
+    });
+  });
+});
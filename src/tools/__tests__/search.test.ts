@@ -0,0 +1,60 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { callTool, mcp } from './test-setup';
+
+describe('searchTool', () => {
+  let tools: any;
+
+  beforeAll(async () => {
+    tools = await mcp.getTools();
+  });
+
+  afterAll(async () => {
+    await mcp.disconnect();
+  });
+
+  describe('execute', () => {
+    it('should return ranked results for a query', async () => {
+      const result = await callTool(tools.mastra_mastraSearch, { query: 'agent memory' });
+      expect(result).toContain('Search results for "agent memory"');
+      expect(result).toMatch(/## 1\. .+\.mdx \(score \d+\.\d+\)/);
+    });
+
+    it('should include the matching section and its line range', async () => {
+      const result = await callTool(tools.mastra_mastraSearch, { query: 'MDocument chunk' });
+      expect(result).toContain('reference/rag/document.mdx');
+      expect(result).toMatch(/Section: .+/);
+      expect(result).toMatch(/Lines: \d+-\d+/);
+    });
+
+    it('should highlight matching terms in the excerpt', async () => {
+      const result = await callTool(tools.mastra_mastraSearch, { query: 'working memory' });
+      expect(result).toMatch(/\*\*[Mm]emory\*\*/);
+    });
+
+    it('should respect the limit', async () => {
+      const result = await callTool(tools.mastra_mastraSearch, { query: 'workflow', limit: 2 });
+      expect(result).toContain('## 2.');
+      expect(result).not.toContain('## 3.');
+    });
+
+    it('should match different word forms', async () => {
+      const result = await callTool(tools.mastra_mastraSearch, { query: 'embeddings' });
+      expect(result).toMatch(/\*\*[Ee]mbedd?ing/);
+    });
+
+    it('should tolerate typos in the query', async () => {
+      const result = await callTool(tools.mastra_mastraSearch, { query: 'memroy' });
+      expect(result).toContain('memory/');
+    });
+
+    it('should expand synonyms to related docs', async () => {
+      const result = await callTool(tools.mastra_mastraSearch, { query: 'model context protocol' });
+      expect(result).toContain('reference/tools/');
+    });
+
+    it('should handle queries without results gracefully', async () => {
+      const result = await callTool(tools.mastra_mastraSearch, { query: 'zzzqqqxxx' });
+      expect(result).toContain('No documentation found for "zzzqqqxxx"');
+    });
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { callTool, mcp } from './test-setup';
+
+describe('upgradeTool', () => {
+  let tools: any;
+
+  beforeAll(async () => {
+    tools = await mcp.getTools();
+  });
+
+  afterAll(async () => {
+    await mcp.disconnect();
+  });
+
+  describe('execute', () => {
+    it('should list the changes a package.json has not picked up, breaking changes first', async () => {
+      const result = await callTool(tools.mastra_mastraUpgrade, {
+        manifest: JSON.stringify({
+          dependencies: { '@mastra/core': '^0.14.0', '@mastra/pg': 'latest', zod: '^3.25.0' },
+          devDependencies: { '@mastra/not-a-package': '1.0.0' },
+        }),
+      });
+      expect(result).toContain('# Upgrade plan');
+      expect(result).toMatch(/Upgrade: `pnpm add @mastra\/core@\d+\.\d+\.\d+`/);
+      expect(result).toContain('No breaking changes to review.');
+      expect(result).toMatch(/## @mastra\/core: 0\.14\.0 → \d+\.\d+\.\d+/);
+      expect(result).toContain('- **0.15.0** Bump zod peerdep to 3.25.0');
+      expect(result).not.toContain('### Breaking changes');
+      expect(result).toContain('Installed version unknown, pass the lockfile entries instead: @mastra/pg ("latest")');
+      expect(result).toContain('Not in the Mastra changelogs: @mastra/not-a-package');
+    });
+
+    it('should read exact versions from a pnpm lockfile excerpt', async () => {
+      const result = await callTool(tools.mastra_mastraUpgrade, {
+        manifest: [
+          'importers:',
+          '  .:',
+          '    dependencies:',
+          "      '@mastra/memory':",
+          '        specifier: ^0.14.0',
+          '        version: 0.14.2(@mastra/core@0.15.2)(zod@3.25.76)',
+          'packages:',
+          "  '@mastra/pg@0.14.3(@mastra/core@0.15.2)':",
+          '    resolution: {integrity: sha512-abc}',
+        ].join('\n'),
+      });
+      expect(result).toContain('## @mastra/pg: 0.14.3 → ');
+      expect(result).toContain('Up to date: @mastra/memory (0.14.2)');
+    });
+
+    it('should follow prereleases when a prerelease is installed', async () => {
+      const result = await callTool(tools.mastra_mastraUpgrade, {
+        manifest: '"@mastra/core@^0.15.0":\n  version "0.15.3-alpha.2"\n',
+      });
+      expect(result).toMatch(/## @mastra\/core: 0\.15\.3-alpha\.2 → 0\.15\.3-alpha\.\d+/);
+    });
+
+    it('should skip lockfile entries without a version', async () => {
+      const result = await callTool(tools.mastra_mastraUpgrade, {
+        manifest: JSON.stringify({
+          packages: { 'node_modules/@mastra/rag': null, 'node_modules/@mastra/memory': { version: '0.14.0' } },
+          dependencies: { '@mastra/core': null, '@mastra/pg': { version: 5 } },
+        }),
+      });
+      expect(result).toContain('## @mastra/memory: 0.14.0 → ');
+      expect(result).not.toContain('## @mastra/core');
+      expect(result).not.toContain('@mastra/pg');
+      expect(result).not.toContain('Installed version unknown');
+    });
+
+    it('should explain when no Mastra packages are installed', async () => {
+      const result = await callTool(tools.mastra_mastraUpgrade, { manifest: '{"dependencies":{"zod":"^3.25.0"}}' });
+      expect(result).toContain('No @mastra packages found');
+    });
+  });
+});
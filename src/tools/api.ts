@@ -0,0 +1,106 @@
+import { z } from 'zod';
+import { getCanonicalUrl } from '../docs-links';
+import { logger } from '../logger';
+import { renderPropertiesTable } from '../mdx-to-markdown';
+import { findSymbols, suggestSymbols } from '../symbol-index';
+import type { ParameterGroup, SymbolEntry } from '../symbol-index';
+import { getSymbolIndex } from '../utils';
+
+// Symbols shown in full for one lookup, further matches are only listed
+const MAX_DETAILED_MATCHES = 3;
+
+const symbolIndex = await getSymbolIndex();
+
+// Reference subdirectories that document at least one symbol, like "agents" for reference/agents/
+const referenceCategories = Array.from(
+  new Set(symbolIndex.symbols.map(symbol => symbol.path.split('/')[1]).filter(Boolean)),
+).sort();
+
+// Helper function to render the property tables of a symbol under their headings
+function formatParameterGroups(groups: ParameterGroup[]): string[] {
+  return groups.flatMap(group => {
+    const table = renderPropertiesTable(group.properties);
+    return table ? [`### ${group.heading || 'Parameters'}`, '', table, ''] : [];
+  });
+}
+
+// Helper function to describe a symbol with its signature, parameters and source page
+function formatSymbol(symbol: SymbolEntry): string {
+  const url = getCanonicalUrl(symbol.path.split('#')[0]);
+  return [
+    `## ${symbol.name} (${symbol.kind})`,
+    '',
+    `Source: ${symbol.path}`,
+    ...(url ? [`Canonical URL: ${url}`] : []),
+    ...(symbol.aliases.length > 0 ? [`Also known as: ${symbol.aliases.join(', ')}`] : []),
+    '',
+    ...(symbol.signature ? ['```typescript', symbol.signature, '```', ''] : []),
+    ...(symbol.description ? [symbol.description, ''] : []),
+    ...formatParameterGroups(symbol.parameters),
+    ...(symbol.returns.length > 0 ? formatParameterGroups(symbol.returns) : []),
+  ]
+    .join('\n')
+    .trim();
+}
+
+export const apiInputSchema = z.object({
+  symbol: z
+    .string()
+    .min(1)
+    .describe(
+      'Name of the class, function or method to look up, e.g. "Agent", "createWorkflow", "Memory", "Agent.generate" or "MDocument.fromText".',
+    ),
+  category: z
+    .string()
+    .optional()
+    .describe(
+      `Reference section to restrict the lookup to, when a name exists in several. One of: ${referenceCategories.join(', ')}.`,
+    ),
+});
+
+export type ApiInput = z.infer<typeof apiInputSchema>;
+
+export const apiTool = {
+  name: 'mastraApi',
+  description: `Look up a Mastra API symbol in the reference documentation.
+    Returns the signature, the parameters with their types, whether they are required and their defaults,
+    the return values when documented, and the reference page the information comes from.
+    Use it for questions like "what are the options for Agent/createWorkflow/Memory".
+    Read the returned source path with the mastraDocs tool for usage examples and details.`,
+  parameters: apiInputSchema,
+  execute: async (args: ApiInput) => {
+    void logger.debug('Executing mastraApi tool', { args });
+    try {
+      const matches = findSymbols(symbolIndex, args.symbol).filter(
+        symbol => !args.category || symbol.path.startsWith(`reference/${args.category.replace(/^\/+|\/+$/g, '')}/`),
+      );
+
+      if (matches.length === 0) {
+        const suggestions = suggestSymbols(symbolIndex, args.symbol);
+        return [
+          `No API reference found for "${args.symbol}"${args.category ? ` in reference/${args.category}` : ''}.`,
+          ...(suggestions.length > 0 ? ['', 'Did you mean:', ...suggestions.map(name => `- ${name}`)] : []),
+        ].join('\n');
+      }
+
+      const detailed = matches.slice(0, MAX_DETAILED_MATCHES);
+      const others = matches.slice(MAX_DETAILED_MATCHES);
+      return [
+        ...detailed.map(formatSymbol),
+        ...(others.length > 0
+          ? [
+              [
+                'Other matches:',
+                ...others.map(symbol => `- ${symbol.name} (${symbol.path})`),
+                '',
+                'Pass "category" to narrow the lookup down.',
+              ].join('\n'),
+            ]
+          : []),
+      ].join('\n\n---\n\n');
+    } catch (error) {
+      void logger.error('Failed to execute mastraApi tool', error);
+      throw error;
+    }
+  },
+};
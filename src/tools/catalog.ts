@@ -0,0 +1,165 @@
+import { z } from 'zod';
+import { logger } from '../logger';
+import { getPackageCatalog, readReadme } from '../package-catalog';
+import type { CatalogPackage } from '../package-catalog';
+import { resolvePackageName, suggestPackageNames } from '../package-names';
+
+const CATALOG_NOT_PREPARED =
+  'Descriptions, categories, keywords and peer dependencies are not available: the package catalog was not prepared.';
+
+const packageCatalog = await getPackageCatalog();
+
+// Monorepo directories packages are cataloged under, like "stores" or "deployers"
+const categories = Array.from(
+  new Set(packageCatalog.packages.map(pkg => pkg.category).filter((category): category is string => !!category)),
+).sort();
+
+// Helper function to tell whether every word of the query appears in the name, description or keywords
+function matchesQuery(pkg: CatalogPackage, query: string): boolean {
+  const text = [pkg.name, pkg.description ?? '', ...pkg.keywords].join(' ').toLowerCase();
+  return query
+    .toLowerCase()
+    .split(/\s+/)
+    .filter(Boolean)
+    .every(term => text.includes(term));
+}
+
+// Helper function to describe one package with all of its metadata
+function formatPackageDetails(pkg: CatalogPackage): string {
+  const peerDependencies = Object.entries(pkg.peerDependencies).map(([name, range]) => `${name} ${range}`);
+  return [
+    `# ${pkg.name}`,
+    '',
+    ...(pkg.description ? [pkg.description, ''] : []),
+    `- Version: ${pkg.version ?? 'unknown'}`,
+    ...(pkg.category ? [`- Category: ${pkg.category}${pkg.directory ? ` (${pkg.directory})` : ''}`] : []),
+    ...(pkg.keywords.length > 0 ? [`- Keywords: ${pkg.keywords.join(', ')}`] : []),
+    // Packages without a category come from the changelogs, which don't list peer dependencies
+    ...(pkg.category
+      ? [`- Peer dependencies: ${peerDependencies.length > 0 ? peerDependencies.join(', ') : 'none'}`]
+      : []),
+    `- Install: \`pnpm add ${pkg.name}@latest\``,
+    '',
+    ...(pkg.category ? [] : [CATALOG_NOT_PREPARED, '']),
+    `Call mastraChanges with package "${pkg.name}" for its changelog.`,
+  ].join('\n');
+}
+
+// Helper function to list packages under their category headings
+function formatPackageList(packages: CatalogPackage[]): string {
+  const byCategory = new Map<string, CatalogPackage[]>();
+  for (const pkg of packages) {
+    const category = pkg.category ?? 'packages';
+    byCategory.set(category, [...(byCategory.get(category) ?? []), pkg]);
+  }
+  return Array.from(byCategory.keys())
+    .sort()
+    .map(category =>
+      [
+        `## ${category}`,
+        '',
+        ...(byCategory.get(category) ?? []).map(
+          pkg =>
+            `- **${pkg.name}**${pkg.version ? ` ${pkg.version}` : ''}${pkg.description ? ` — ${pkg.description}` : ''}`,
+        ),
+      ].join('\n'),
+    )
+    .join('\n\n');
+}
+
+export const catalogInputSchema = z.object({
+  name: z
+    .string()
+    .optional()
+    .describe(
+      'Package to describe in detail along with its README, e.g. "@mastra/pg". Loosely written names like "pg" or "postgres" work too.',
+    ),
+  category: z
+    .string()
+    .optional()
+    .describe(
+      `Only list packages from this part of the Mastra monorepo${categories.length > 0 ? `. One of: ${categories.join(', ')}` : ''}.`,
+    ),
+  query: z
+    .string()
+    .optional()
+    .describe('Only list packages whose name, description or keywords contain every word, e.g. "vector" or "voice".'),
+  peerDependency: z
+    .string()
+    .optional()
+    .describe('Only list packages with this peer dependency, e.g. "@mastra/core" or "zod".'),
+});
+
+export type CatalogInput = z.infer<typeof catalogInputSchema>;
+
+export const catalogTool = {
+  name: 'mastraCatalog',
+  description: `List the packages Mastra publishes with their description, current version, peer dependencies and keywords.
+    Filter by category (the part of the monorepo a package lives in, such as stores, deployers or voice),
+    by words in the description, or by peer dependency. Pass a name to see everything about one package,
+    including the setup instructions of its README.
+    Use it for questions like "which vector stores exist" or "which deployers are available".`,
+  parameters: catalogInputSchema,
+  execute: async (args: CatalogInput) => {
+    void logger.debug('Executing mastraCatalog tool', { args });
+    try {
+      const names = packageCatalog.packages.map(pkg => pkg.name);
+
+      if (args.name) {
+        const resolved = resolvePackageName(args.name, names);
+        const pkg = packageCatalog.packages.find(candidate => candidate.name === resolved);
+        if (!pkg) {
+          const suggestions = suggestPackageNames(args.name, names);
+          return [
+            `Package "${args.name}" not found.`,
+            ...(suggestions.length > 0 ? ['', 'Did you mean:', ...suggestions.map(name => `- ${name}`)] : []),
+          ].join('\n');
+        }
+        const readme = await readReadme(pkg.name);
+        return [
+          formatPackageDetails(pkg),
+          ...(readme
+            ? ['', '---', '', readme.trim()]
+            : pkg.category
+              ? ['', 'No README was published for this package.']
+              : []),
+        ].join('\n');
+      }
+
+      const category = args.category
+        ?.trim()
+        .replace(/^\/+|\/+$/g, '')
+        .toLowerCase();
+      if (category && !categories.includes(category)) {
+        return `Unknown category "${args.category}". ${categories.length > 0 ? `Categories: ${categories.join(', ')}.` : 'Categories are not available: the package catalog was not prepared.'}`;
+      }
+
+      const packages = packageCatalog.packages.filter(
+        pkg =>
+          (!category || pkg.category === category) &&
+          (!args.query || matchesQuery(pkg, args.query)) &&
+          (!args.peerDependency || Object.hasOwn(pkg.peerDependencies, args.peerDependency.trim())),
+      );
+      const filters = [
+        ...(category ? [`category "${category}"`] : []),
+        ...(args.query ? [`"${args.query}"`] : []),
+        ...(args.peerDependency ? [`peer dependency ${args.peerDependency.trim()}`] : []),
+      ];
+      if (packages.length === 0) {
+        return `No packages match ${filters.join(', ')}.`;
+      }
+
+      return [
+        `# Mastra packages${filters.length > 0 ? ` matching ${filters.join(', ')}` : ''} (${packages.length})`,
+        '',
+        formatPackageList(packages),
+        ...(categories.length === 0 ? ['', CATALOG_NOT_PREPARED] : []),
+        '',
+        'Pass "name" for the peer dependencies and keywords of a package.',
+      ].join('\n');
+    } catch (error) {
+      void logger.error('Failed to execute mastraCatalog tool', error);
+      throw error;
+    }
+  },
+};
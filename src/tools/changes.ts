@@ -1,7 +1,22 @@
 import fs from 'node:fs/promises';
-import path from 'node:path';
 import { z } from 'zod';
+import {
+  CHANGE_TYPES,
+  compareVersions,
+  CORE_PACKAGE,
+  formatChangelogEntry,
+  getChangelogIndex,
+  getCoreVersions,
+  isBreakingChange,
+  isDependencyUpdate,
+  isValidVersion,
+  selectReleases,
+  sortPackageNames,
+} from '../changelog';
+import type { ChangeNotice, ChangelogEntry, ChangelogRelease, ReleaseRange } from '../changelog';
 import { logger } from '../logger';
+import { resolvePackageName, suggestPackageNames } from '../package-names';
+import { PathAccessError, resolveWithinRoot } from '../sandbox';
 import { fromPackageRoot } from '../utils';
 
 // Helper function to encode package names for file paths
@@ -16,6 +31,11 @@ function decodePackageName(name: string): string {
 
 const changelogsDir = fromPackageRoot('.docs/organized/changelogs');
 
+// Changelog pages hold whole releases up to about this many characters, roughly 7k tokens
+const MAX_PAGE_CHARS = 30_000;
+// Entries listed for a changelog search, across all packages
+const MAX_SEARCH_RESULTS = 40;
+
 // Helper function to list package changelogs
 async function listPackageChangelogs(): Promise<Array<{ name: string; path: string }>> {
   void logger.debug('Listing package changelogs');
@@ -33,19 +53,337 @@ async function listPackageChangelogs(): Promise<Array<{ name: string; path: stri
   }
 }
 
-// Helper function to read a package changelog
-async function readPackageChangelog(filename: string): Promise<string> {
+// Helper function to split a changelog into its title and one section per release, newest first
+function splitReleaseSections(changelog: string): {
+  header: string;
+  sections: Array<{ version: string; content: string }>;
+} {
+  const headings = Array.from(changelog.matchAll(/^##\s+v?(\d+\.\d+\.\d+(?:-[\w.]+)?)\s*$/gm));
+  if (headings.length === 0) return { header: changelog, sections: [] };
+  return {
+    header: changelog.slice(0, headings[0].index),
+    sections: headings.map((heading, i) => ({
+      version: heading[1],
+      content: changelog.slice(heading.index, headings[i + 1]?.index ?? changelog.length).trimEnd(),
+    })),
+  };
+}
+
+// Helper function to serve one page of whole releases, starting `offset` releases in or at `version`
+function paginateChangelog(
+  packageName: string,
+  changelog: string,
+  { offset = 0, version }: { offset?: number; version?: string },
+): string {
+  const { header, sections } = splitReleaseSections(changelog);
+  if (sections.length === 0) return changelog;
+
+  let start = offset;
+  let note = '';
+  if (version) {
+    start = sections.findIndex(section => section.version === version);
+    if (start === -1) {
+      // Start at the newest release older than the requested one
+      start = isValidVersion(version)
+        ? sections.findIndex(section => compareVersions(section.version, version) < 0)
+        : -1;
+      if (start === -1) {
+        return `Version "${version}" is not in the changelog of ${packageName}, which covers ${sections.at(-1)!.version} to ${sections[0].version}.`;
+      }
+      note = `Version ${version} is not in the changelog, starting at ${sections[start].version}, the closest older release.\n\n`;
+    }
+  }
+  if (start >= sections.length) {
+    return `Offset ${start} is past the last release of ${packageName}. Its changelog lists ${sections.length} releases.`;
+  }
+
+  // Always include at least one release, even when it's longer than a page
+  let end = start + 1;
+  let size = sections[start].content.length;
+  while (end < sections.length && size + sections[end].content.length <= MAX_PAGE_CHARS) {
+    size += sections[end].content.length;
+    end++;
+  }
+
+  const page = sections.slice(start, end).map(section => section.content);
+  const content = `${note}${start === 0 ? header : `# ${packageName}\n\n`}${page.join('\n\n')}`;
+  if (end === sections.length && start === 0) return content;
+  const position = `[Showing releases ${start + 1}-${end} of ${sections.length} (${sections[start].version} to ${sections[end - 1].version}).`;
+  if (end === sections.length) return `${content}\n\n${position} These are the oldest releases.]`;
+  return `${content}\n\n${position} For older releases, call mastraChanges with package "${packageName}" and offset ${end} (or version "${sections[end].version}").]`;
+}
+
+// Helper function to read a page of a package changelog
+async function readPackageChangelog(
+  filename: string,
+  page: { offset?: number; version?: string } = {},
+): Promise<string> {
   const encodedName = encodePackageName(filename.replace('.md', '')); // Remove .md if present
-  const filePath = path.join(changelogsDir, `${encodedName}.md`);
+  const filePath = await resolveWithinRoot(changelogsDir, `${encodedName}.md`);
   void logger.debug(`Reading changelog: ${filename}`);
 
+  let changelog: string;
   try {
-    return await fs.readFile(filePath, 'utf-8');
+    changelog = await fs.readFile(filePath, 'utf-8');
   } catch {
     const packages = await listPackageChangelogs();
-    const availablePackages = packages.map(pkg => `- ${pkg.name}`).join('\n');
-    return `Changelog for "${filename.replace('.md', '')}" not found.\n\nAvailable packages:\n${availablePackages}`;
+    return packageNotFound(
+      packages.map(pkg => pkg.name),
+      filename.replace('.md', ''),
+    );
+  }
+  return paginateChangelog(filename.replace('.md', ''), changelog, page);
+}
+
+// Helper function to list the entries of the selected releases grouped by change type, most significant first
+function formatReleaseChanges(packageName: string, releases: ChangelogRelease[], range: string): string {
+  const lines = [
+    `# ${packageName}: changes ${range}`,
+    '',
+    `Releases (${releases.length}): ${releases.map(release => release.version).join(', ')}`,
+  ];
+  for (const type of CHANGE_TYPES) {
+    const entries = releases.flatMap(release =>
+      release.entries.filter(entry => entry.type === type).map(entry => ({ release, entry })),
+    );
+    if (entries.length === 0) continue;
+    lines.push('', `## ${type[0].toUpperCase()}${type.slice(1)} changes (${entries.length})`, '');
+    lines.push(...entries.map(({ release, entry }) => formatChangelogEntry(release, entry)));
+  }
+  return lines.join('\n');
+}
+
+// Helper function to check the bounds of a range, returning an error message for invalid ones
+function validateRange(range: ReleaseRange): string | null {
+  for (const bound of [range.since, range.until]) {
+    if (bound && !isValidVersion(bound)) {
+      return `Invalid version "${bound}". Use a version like "0.12.0" or "0.15.3-alpha.1".`;
+    }
+  }
+  for (const bound of [range.sinceDate, range.untilDate]) {
+    if (bound && !/^\d{4}-\d{2}-\d{2}$/.test(bound)) {
+      return `Invalid date "${bound}". Use a date like "2025-08-31".`;
+    }
+  }
+  return null;
+}
+
+// Helper function to describe a range in words, like "after 0.10.3 up to 0.12.0"
+function describeRange(range: ReleaseRange): string {
+  return [
+    range.since && `after ${range.since}`,
+    range.until && `up to ${range.until}`,
+    range.sinceDate && `released since ${range.sinceDate}`,
+    range.untilDate && `released until ${range.untilDate}`,
+  ]
+    .filter(Boolean)
+    .join(' ');
+}
+
+// Helper function to aggregate the changes of every package between two Mastra releases, breaking changes first.
+// Version bounds are core versions, other packages are matched by the core version they were released against.
+async function buildUpgradeReport(range: ReleaseRange): Promise<string> {
+  const index = await getChangelogIndex();
+  const packageNames = sortPackageNames(Object.keys(index.packages));
+  if ((range.sinceDate || range.untilDate) && !packageNames.some(name => index.packages[name].some(r => r.date))) {
+    return 'Release dates are not available: the changelogs were prepared outside of a git checkout. Use "since"/"until" versions of @mastra/core instead.';
+  }
+
+  const breaking: string[] = [];
+  const other: string[] = [];
+  const dependencyUpdatesOnly: string[] = [];
+  for (const name of packageNames) {
+    const releases = index.packages[name];
+    const selected = selectReleases(releases, range, name === CORE_PACKAGE ? undefined : getCoreVersions(releases));
+    if (selected.length === 0) continue;
+
+    const entries = selected.flatMap(release =>
+      release.entries.filter(entry => !isDependencyUpdate(entry)).map(entry => ({ release, entry })),
+    );
+    if (entries.length === 0) {
+      dependencyUpdatesOnly.push(name);
+      continue;
+    }
+
+    const heading = `### ${name} (${selected.length > 1 ? `${selected.at(-1)!.version} → ` : ''}${selected[0].version})`;
+    const breakingEntries = entries.filter(({ entry }) => isBreakingChange(entry));
+    if (breakingEntries.length > 0) {
+      breaking.push(
+        [heading, '', ...breakingEntries.map(({ release, entry }) => formatChangelogEntry(release, entry))].join('\n'),
+      );
+    }
+    const otherEntries = entries
+      .filter(({ entry }) => !isBreakingChange(entry))
+      .sort((a, b) => CHANGE_TYPES.indexOf(a.entry.type) - CHANGE_TYPES.indexOf(b.entry.type));
+    if (otherEntries.length > 0) {
+      other.push(
+        [
+          heading,
+          '',
+          ...otherEntries.map(({ release, entry }) => formatChangelogEntry(release, entry, { firstLineOnly: true })),
+        ].join('\n'),
+      );
+    }
+  }
+
+  const title = `# Upgrade report: ${range.since || range.until ? `${CORE_PACKAGE} ` : 'releases '}${describeRange(range)}`;
+  if (breaking.length === 0 && other.length === 0 && dependencyUpdatesOnly.length === 0) {
+    return `${title}\n\nNo releases found in this range.`;
+  }
+  return [
+    title,
+    '',
+    'Breaking changes are major changes, removals and changes described as breaking.',
+    ...(breaking.length > 0 ? ['', '## Breaking changes', '', breaking.join('\n\n')] : ['', 'No breaking changes.']),
+    ...(other.length > 0 ? ['', '## Other changes', '', other.join('\n\n')] : []),
+    ...(dependencyUpdatesOnly.length > 0 ? ['', `Only dependency updates: ${dependencyUpdatesOnly.join(', ')}`] : []),
+  ].join('\n');
+}
+
+// Helper function to get the message for an unknown package: the closest package names, or all of them
+function packageNotFound(packageNames: string[], packageName: string): string {
+  const suggestions = suggestPackageNames(packageName, packageNames);
+  if (suggestions.length > 0) {
+    return `Changelog for "${packageName}" not found.\n\nDid you mean:\n${suggestions.map(name => `- ${name}`).join('\n')}`;
+  }
+  const availablePackages = [...packageNames]
+    .sort()
+    .map(name => `- ${name}`)
+    .join('\n');
+  return `Changelog for "${packageName}" not found.\n\nAvailable packages:\n${availablePackages}`;
+}
+
+// Notices each `only` filter keeps
+const NOTICE_FILTERS: Record<NonNullable<ChangesInput['only']>, ChangeNotice[]> = {
+  breaking: ['breaking', 'removal'],
+  deprecated: ['deprecation'],
+  'breaking-or-deprecated': ['breaking', 'removal', 'deprecation'],
+};
+
+// Helper function to list breaking changes and deprecations as a checklist, per package with the version
+// they landed in. Without a package, version bounds are core versions like in the upgrade report.
+async function buildNoticeChecklist(args: ChangesInput & { only: NonNullable<ChangesInput['only']> }): Promise<string> {
+  const index = await getChangelogIndex();
+  const packageName = args.package?.replace(/\.md$/, '');
+  if (packageName && !Object.hasOwn(index.packages, packageName)) {
+    return packageNotFound(Object.keys(index.packages), packageName);
+  }
+
+  const kept = NOTICE_FILTERS[args.only];
+  const packageNames = packageName ? [packageName] : sortPackageNames(Object.keys(index.packages));
+  const sections: string[] = [];
+  for (const name of packageNames) {
+    const releases = index.packages[name];
+    const anchorOnCore = !packageName && name !== CORE_PACKAGE;
+    const selected = selectReleases(releases, args, anchorOnCore ? getCoreVersions(releases) : undefined);
+    const items = selected.flatMap(release =>
+      release.entries
+        .map(entry => ({ entry, notices: entry.notices.filter(notice => kept.includes(notice)) }))
+        .filter(({ notices }) => notices.length > 0)
+        .map(({ entry, notices }) => formatChangelogEntry(release, entry, { checkbox: true, labels: notices })),
+    );
+    if (items.length > 0) sections.push([`## ${name}`, '', ...items].join('\n'));
   }
+
+  const subject =
+    args.only === 'deprecated'
+      ? 'Deprecations'
+      : args.only === 'breaking'
+        ? 'Breaking changes'
+        : 'Breaking changes and deprecations';
+  const scope = [packageName ?? 'all packages', describeRange(args)].filter(Boolean).join(' ');
+  if (sections.length === 0) return `No ${subject.toLowerCase()} found for ${scope}.`;
+  return [`# ${subject}: ${scope}`, '', sections.join('\n\n')].join('\n');
+}
+
+// Helper function to tell whether an entry matches a search: `#7032` and bare numbers match pull requests,
+// hex strings match commits, and anything else must appear in the summary, every word of it
+function matchesQuery(entry: ChangelogEntry, query: string): boolean {
+  const pullRequest = query.match(/^#?(\d+)$/);
+  if (pullRequest && entry.pullRequest === Number(pullRequest[1])) return true;
+  const commit = query.match(/^[0-9a-f]{7,40}$/i)?.[0].toLowerCase();
+  if (commit && entry.commit && (commit.startsWith(entry.commit) || entry.commit.startsWith(commit))) return true;
+  const summary = entry.summary.toLowerCase();
+  return query
+    .toLowerCase()
+    .split(/\s+/)
+    .filter(Boolean)
+    .every(term => summary.includes(term));
+}
+
+// Helper function to find the entries matching `query` in every changelog, with the package and version they
+// landed in. An entry repeated by prereleases and the release after them is listed once, at its release.
+async function searchChangelogs(query: string, packageName?: string): Promise<string> {
+  const index = await getChangelogIndex();
+  if (packageName && !Object.hasOwn(index.packages, packageName)) {
+    return packageNotFound(Object.keys(index.packages), packageName);
+  }
+
+  const sections: string[] = [];
+  let total = 0;
+  let shown = 0;
+  for (const name of packageName ? [packageName] : sortPackageNames(Object.keys(index.packages))) {
+    const matches = new Map<string, { entry: ChangelogEntry; versions: string[] }>();
+    for (const release of index.packages[name]) {
+      for (const entry of release.entries) {
+        if (isDependencyUpdate(entry) || !matchesQuery(entry, query)) continue;
+        const key = entry.pullRequest ? `#${entry.pullRequest}` : (entry.commit ?? entry.summary);
+        const match = matches.get(key) ?? { entry, versions: [] };
+        match.versions.push(release.version);
+        matches.set(key, match);
+      }
+    }
+    total += matches.size;
+    if (matches.size === 0 || shown >= MAX_SEARCH_RESULTS) continue;
+
+    const lines = Array.from(matches.values())
+      .slice(0, MAX_SEARCH_RESULTS - shown)
+      .map(({ entry, versions }) => {
+        // Versions are newest first: the oldest is where the entry first appeared
+        const first = versions[versions.length - 1];
+        const release = [...versions].reverse().find(version => !version.includes('-')) ?? first;
+        const reference = entry.pullRequest ? ` (#${entry.pullRequest})` : entry.commit ? ` (${entry.commit})` : '';
+        const prerelease = release !== first ? ` — first published in ${first}` : '';
+        return `- **${release}** ${entry.summary.split('\n')[0]}${reference}${prerelease}`;
+      });
+    shown += lines.length;
+    sections.push([`## ${name}`, '', ...lines].join('\n'));
+  }
+
+  if (total === 0) {
+    return `No changelog entries match "${query}"${packageName ? ` in ${packageName}` : ''}.`;
+  }
+  return [
+    `# Changelog entries matching "${query}" (${total})`,
+    '',
+    sections.join('\n\n'),
+    ...(total > shown
+      ? ['', `[Showing ${shown} of ${total} entries. Pass a package or a more specific query to narrow the search.]`]
+      : []),
+  ].join('\n');
+}
+
+// Helper function to answer a version range query from the parsed changelogs
+async function readVersionRange(args: ChangesInput & { package: string }): Promise<string> {
+  const index = await getChangelogIndex();
+  const packageName = args.package.replace(/\.md$/, '');
+  if (!Object.hasOwn(index.packages, packageName)) return packageNotFound(Object.keys(index.packages), packageName);
+
+  const releases = index.packages[packageName];
+  const range = describeRange(args);
+  if ((args.sinceDate || args.untilDate) && !releases.some(release => release.date)) {
+    return `Release dates of ${packageName} are not available. Use "since"/"until" versions instead.`;
+  }
+  const selected = selectReleases(releases, args);
+  if (selected.length === 0) {
+    if (!args.includePrereleases && selectReleases(releases, { ...args, includePrereleases: true }).length > 0) {
+      return `Only prereleases of ${packageName} were published ${range}. Pass includePrereleases to list their changes.`;
+    }
+    const known =
+      releases.length > 0 ? ` The changelog covers ${releases.at(-1)!.version} to ${releases[0].version}.` : '';
+    return `No releases of ${packageName} ${range}.${known}`;
+  }
+  return formatReleaseChanges(packageName, selected, range);
 }
 
 // Get initial packages for the description
@@ -55,31 +393,121 @@ const packagesListing =
     ? '\n\nAvailable packages: ' + initialPackages.map(pkg => pkg.name).join(', ')
     : '\n\nNo package changelogs available yet. Run the documentation preparation script first.';
 
+// Helper function to answer a changelog request once the package name is resolved
+async function readChanges(args: ChangesInput): Promise<string> {
+  const hasRange = !!(args.since || args.until || args.sinceDate || args.untilDate);
+
+  if (args.query?.trim()) {
+    return await searchChangelogs(args.query.trim(), args.package?.replace(/\.md$/, ''));
+  }
+
+  if (args.only) {
+    return await buildNoticeChecklist({ ...args, only: args.only });
+  }
+
+  if (!args.package && hasRange) {
+    return await buildUpgradeReport(args);
+  }
+
+  if (!args.package) {
+    const packages = await listPackageChangelogs();
+    const content = ['Available package changelogs:', '', ...packages.map(pkg => `- ${pkg.name}`)].join('\n');
+    return content;
+  }
+
+  if (hasRange) {
+    return await readVersionRange({ ...args, package: args.package });
+  }
+
+  const content = await readPackageChangelog(args.package, { offset: args.offset, version: args.version });
+  return content;
+}
+
 export const changesInputSchema = z.object({
   package: z
     .string()
     .optional()
-    .describe('Name of the specific package to fetch changelog for. If not provided, lists all available packages.'),
+    .describe(
+      'Name of the specific package to fetch changelog for. If not provided, lists all available packages, or with a version or date range, reports the changes of every package.',
+    ),
+  since: z
+    .string()
+    .optional()
+    .describe(
+      'Only return changes released after this version (exclusive), e.g. the version being upgraded from. Without a package, a version of @mastra/core.',
+    ),
+  until: z
+    .string()
+    .optional()
+    .describe(
+      'Only return changes released up to this version (inclusive), e.g. the version being upgraded to. Without a package, a version of @mastra/core.',
+    ),
+  sinceDate: z.string().optional().describe('Only return changes released on or after this day (YYYY-MM-DD).'),
+  untilDate: z.string().optional().describe('Only return changes released on or before this day (YYYY-MM-DD).'),
+  query: z
+    .string()
+    .optional()
+    .describe(
+      'Search all changelogs (or the given package) for a pull request number ("#7032"), a commit hash or words such as "streamVNext". Returns the matching entries with their package and version.',
+    ),
+  offset: z
+    .number()
+    .int()
+    .min(0)
+    .optional()
+    .describe(
+      'Number of releases to skip, newest first, when reading a whole changelog. Long changelogs are split into pages of whole releases; each page says which offset comes next.',
+    ),
+  version: z
+    .string()
+    .optional()
+    .describe('Start reading a whole changelog at this release instead of the newest one, e.g. "0.10.0".'),
+  only: z
+    .enum(['breaking', 'deprecated', 'breaking-or-deprecated'])
+    .optional()
+    .describe(
+      'Only return breaking changes (including removals), deprecations or both, as a checklist per package with the version they landed in. Works with or without a package and range.',
+    ),
+  includePrereleases: z
+    .boolean()
+    .optional()
+    .describe(
+      'Include alpha/beta releases in a version range. Defaults to only when a bound is a prerelease, since releases repeat the changes of their prereleases.',
+    ),
 });
 
 export type ChangesInput = z.infer<typeof changesInputSchema>;
 
 export const changesTool = {
   name: 'mastraChanges',
-  description: `Get changelog information for Mastra.ai packages. ${packagesListing}`,
+  description: `Get changelog information for Mastra.ai packages.
+    Pass "since" and/or "until" versions to get only the changes between two versions, grouped into major, minor and patch changes.
+    Without a package, a version range of @mastra/core or a date range returns an upgrade report across all packages, breaking changes first.
+    Pass "only" to get just the breaking changes and/or deprecations as an upgrade checklist.
+    Whole changelogs are split into pages of releases, newest first; use "offset" or "version" to reach older releases.
+    Pass "query" to find which package and version introduced a pull request, commit or feature. ${packagesListing}`,
   parameters: changesInputSchema,
   execute: async (args: ChangesInput) => {
-    void logger.debug('Executing mastraChanges tool', { package: args.package });
+    void logger.debug('Executing mastraChanges tool', { args });
     try {
-      if (!args.package) {
-        const packages = await listPackageChangelogs();
-        const content = ['Available package changelogs:', '', ...packages.map(pkg => `- ${pkg.name}`)].join('\n');
-        return content;
-      }
+      const invalidRange = validateRange(args);
+      if (invalidRange) return invalidRange;
 
-      const content = await readPackageChangelog(args.package);
-      return content;
+      // Loosely written package names resolve to the package they clearly refer to
+      const requested = args.package?.replace(/\.md$/, '');
+      const resolved = requested
+        ? resolvePackageName(
+            requested,
+            (await listPackageChangelogs()).map(pkg => pkg.name),
+          )
+        : null;
+      if (!requested || !resolved || resolved === requested) {
+        return await readChanges(args);
+      }
+      const content = await readChanges({ ...args, package: resolved });
+      return `Showing ${resolved}, the closest match to "${requested}".\n\n${content}`;
     } catch (error) {
+      if (error instanceof PathAccessError) return error.toResponse();
       void logger.error('Failed to execute mastraChanges tool', error);
       throw error;
     }
@@ -1,12 +1,192 @@
 import fs from 'node:fs/promises';
 import path from 'node:path';
 import { z } from 'zod';
+import { getCanonicalUrl, rewriteDocLinks } from '../docs-links';
+import { buildDocsManifest, getNavigationTitle, readDocsManifest, sortByNavigation } from '../docs-manifest';
+import { followRedirects, readRedirectMap, REDIRECT_MAP_VERSION } from '../docs-redirects';
 import { logger } from '../logger';
+import { extractHeadings, extractSection, findSectionHeadings, parseFrontmatter } from '../mdx';
+import type { Heading } from '../mdx';
+import { renderMdxToMarkdown } from '../mdx-to-markdown';
+import { PathAccessError, resolveWithinRoot } from '../sandbox';
 import { fromPackageRoot, getMatchingPaths } from '../utils';
 
 const docsBaseDir = fromPackageRoot('.docs/raw/');
+const docsManifestPath = fromPackageRoot('.docs/docs-manifest.json');
+const redirectMapPath = fromPackageRoot('.docs/redirects.json');
 
-type ReadMdxResult = { found: true; content: string } | { found: false };
+// Listings show at most this many characters of a page description
+const MAX_DESCRIPTION_LENGTH = 160;
+
+// Page titles, descriptions and sidebar order, built in memory when the prepare step hasn't written them
+const docsManifest = (await readDocsManifest(docsManifestPath)) ?? (await buildDocsManifest(docsBaseDir));
+
+// Old paths of moved pages, empty when the prepare step hasn't run
+const redirectMap = (await readRedirectMap(redirectMapPath)) ?? {
+  version: REDIRECT_MAP_VERSION,
+  redirects: {},
+  prefixRedirects: {},
+};
+
+// Every served directory and file by its lowercase path without extension, files win over directories
+const docPathsByLowercase = new Map<string, string>();
+for (const page of Object.keys(docsManifest.pages)) {
+  const parts = page.split('/').slice(0, -1);
+  parts.forEach((_, index) => {
+    const dir = parts.slice(0, index + 1).join('/');
+    if (!docPathsByLowercase.has(dir.toLowerCase())) docPathsByLowercase.set(dir.toLowerCase(), dir);
+  });
+}
+for (const page of Object.keys(docsManifest.pages)) {
+  docPathsByLowercase.set(page.replace(/\.mdx$/, '').toLowerCase(), page);
+}
+
+// Default page size for a single path, roughly 10k tokens
+const DEFAULT_MAX_CHARS = 40_000;
+// Rough conversion used when the budget is given in tokens
+const CHARS_PER_TOKEN = 4;
+
+// `anchors` is set when the file exists but the requested `#heading` doesn't
+// `header` is shown above every page of the content, so raw output stays the untouched source
+// `suggestions` is appended after the last page of the content
+type ReadMdxResult =
+  { found: true; content: string; header?: string; suggestions?: string } | { found: false; anchors?: Heading[] };
+
+type DocsReadOptions = {
+  format: 'raw' | 'markdown';
+  // `outline` returns the frontmatter and heading tree instead of the page content,
+  // `tree` returns the navigation hierarchy of a directory (and the outline of a file)
+  mode: 'content' | 'outline' | 'tree';
+};
+
+// Helper function to render headings as a nested list of `path#anchor` links
+function formatHeadingTree(filePath: string, headings: Heading[]): string[] {
+  const minDepth = Math.min(...headings.map(heading => heading.depth));
+  return headings.map(
+    heading => `${'  '.repeat(heading.depth - minDepth)}- ${heading.text} (${filePath}#${heading.slug})`,
+  );
+}
+
+// Helper function to summarize a page by its frontmatter and headings
+function buildOutline(
+  filePath: string,
+  content: string,
+  url: string | null,
+  headings: Heading[] = extractHeadings(content),
+): string {
+  const { data } = parseFrontmatter(content);
+  return [
+    ...(data.title ? [`Title: ${data.title}`] : []),
+    ...(data.description ? [`Description: ${data.description}`] : []),
+    ...(url ? [`Canonical URL: ${url}`] : []),
+    '',
+    ...(headings.length > 0 ? formatHeadingTree(filePath, headings) : ['No headings.']),
+  ]
+    .join('\n')
+    .trim();
+}
+
+// Helper function to find the served path for a request that differs in case or extension, or for a moved page
+function resolveRequestedPath(docPath: string): { path: string; redirected: boolean } | null {
+  const normalized = docPath
+    .replace(/^\/+|\/+$/g, '')
+    .replace(/\.mdx?$/, '')
+    .toLowerCase();
+  const direct = docPathsByLowercase.get(normalized);
+  if (direct !== undefined) return { path: direct, redirected: false };
+
+  const target = followRedirects(redirectMap, normalized, candidate =>
+    docPathsByLowercase.has(candidate.toLowerCase()),
+  );
+  const redirected = target === null ? undefined : docPathsByLowercase.get(target.toLowerCase());
+  return redirected === undefined ? null : { path: redirected, redirected: true };
+}
+
+// Helper function to map a link target without extension to the docs path serving it
+function resolveDocPage(candidate: string): string | null {
+  if (docsManifest.pages[`${candidate}.mdx`]) return `${candidate}.mdx`;
+  const indexPath = path.posix.join(candidate, 'index.mdx');
+  if (docsManifest.pages[indexPath]) return indexPath;
+  if (Object.keys(docsManifest.pages).some(page => page.startsWith(`${candidate}/`))) return candidate;
+  return resolveRequestedPath(candidate)?.path ?? null;
+}
+
+// Helper function to build the canonical URL of a page or one of its sections
+function getPageUrl(filePath: string, anchor: string | null = null): string | null {
+  const pageUrl = getCanonicalUrl(filePath);
+  return pageUrl && anchor ? `${pageUrl}#${anchor}` : pageUrl;
+}
+
+// Helper function to convert MDX source into the requested output, with links pointing at docs paths.
+// Raw output is returned as is. `section` is set when `content` is the part of the page under one heading;
+// its headings come from the whole page so their slugs match the page's anchors.
+function renderDocument(
+  filePath: string,
+  content: string,
+  options: DocsReadOptions,
+  section: { anchor: string; headings: Heading[] } | null = null,
+): string {
+  const url = getPageUrl(filePath, section?.anchor);
+  if (options.mode !== 'content') return buildOutline(filePath, content, url, section?.headings);
+  if (options.format === 'raw') return content;
+
+  const rendered = rewriteDocLinks(renderMdxToMarkdown(content), filePath, resolveDocPage);
+  return url ? `Canonical URL: ${url}\n\n${rendered}` : rendered;
+}
+
+// Position of the next page of a path's content, handed to the client as an opaque string
+type PageCursor = { path: string; offset: number };
+
+function encodeCursor(cursor: PageCursor): string {
+  return Buffer.from(JSON.stringify(cursor), 'utf-8').toString('base64url');
+}
+
+function decodeCursor(cursor: string): PageCursor | null {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+    if (typeof decoded?.path === 'string' && Number.isInteger(decoded?.offset) && decoded.offset >= 0) {
+      return { path: decoded.path, offset: decoded.offset };
+    }
+    return null;
+  } catch {
+    return null;
+  }
+}
+
+// Helper function to cut a page of at most `maxChars` out of the content, preferring to end on a line break
+function paginateContent(
+  content: string,
+  offset: number,
+  maxChars: number,
+): { page: string; nextOffset: number | null } {
+  if (content.length - offset <= maxChars) {
+    return { page: content.slice(offset), nextOffset: null };
+  }
+  const hardEnd = offset + maxChars;
+  const lineBreak = content.lastIndexOf('\n', hardEnd - 1);
+  // Only break on a line boundary if it doesn't waste more than half the page
+  const end = lineBreak > offset + maxChars / 2 ? lineBreak + 1 : hardEnd;
+  return { page: content.slice(offset, end), nextOffset: end };
+}
+
+// Helper function to split a `file.mdx#heading-slug` path into its file path and anchor
+function splitAnchor(docPath: string): { filePath: string; anchor: string | null } {
+  const hashIndex = docPath.indexOf('#');
+  if (hashIndex === -1) return { filePath: docPath, anchor: null };
+  return { filePath: docPath.slice(0, hashIndex), anchor: docPath.slice(hashIndex + 1) || null };
+}
+
+// Helper function to describe a file in a listing as `label — title: description`
+function describeFile(filePath: string, label: string = filePath): string {
+  const page = docsManifest.pages[path.posix.normalize(filePath).replace(/^\//, '')];
+  if (!page?.title) return `- ${label}`;
+  if (!page.description) return `- ${label} — ${page.title}`;
+  const description =
+    page.description.length > MAX_DESCRIPTION_LENGTH
+      ? `${page.description.slice(0, MAX_DESCRIPTION_LENGTH - 1).trimEnd()}…`
+      : page.description;
+  return `- ${label} — ${page.title}: ${description}`;
+}
 
 // Helper function to list contents of a directory
 async function listDirContents(dirPath: string): Promise<{ dirs: string[]; files: string[] }> {
@@ -24,9 +204,10 @@ async function listDirContents(dirPath: string): Promise<{ dirs: string[]; files
       }
     }
 
+    const relativePath = path.relative(docsBaseDir, dirPath).replace(/\\/g, '/');
     return {
-      dirs: dirs.sort(),
-      files: files.sort(),
+      dirs: sortByNavigation(docsManifest, relativePath, dirs),
+      files: sortByNavigation(docsManifest, relativePath, files),
     };
   } catch (error) {
     void logger.error(`Failed to list directory contents: ${dirPath}`, error);
@@ -34,9 +215,35 @@ async function listDirContents(dirPath: string): Promise<{ dirs: string[]; files
   }
 }
 
+// Helper function to render a directory and everything below it in sidebar order
+async function buildNavigationTree(docPath: string, depth = 0): Promise<string[]> {
+  const { dirs, files } = await listDirContents(path.join(docsBaseDir, docPath));
+  const indent = '  '.repeat(depth);
+  const entries = sortByNavigation(docsManifest, docPath, [...dirs, ...files]);
+
+  const lines: string[] = [];
+  for (const entry of entries) {
+    const entryPath = path.posix.join(docPath, entry);
+    if (entry.endsWith('/')) {
+      const title = getNavigationTitle(docsManifest, entryPath);
+      lines.push(`${indent}- ${entryPath}${title ? ` — ${title}` : ''}`);
+      lines.push(...(await buildNavigationTree(entryPath, depth + 1)));
+    } else {
+      const title = docsManifest.pages[entryPath]?.title;
+      lines.push(`${indent}- ${entryPath}${title ? ` — ${title}` : ''}`);
+    }
+  }
+  return lines;
+}
+
 // Helper function to read MDX files from a path
-async function readMdxContent(docPath: string, queryKeywords: string[]): Promise<ReadMdxResult> {
-  const fullPath = path.join(docsBaseDir, docPath);
+async function readMdxContent(
+  requestedPath: string,
+  queryKeywords: string[],
+  options: DocsReadOptions,
+): Promise<ReadMdxResult> {
+  const { filePath: docPath, anchor } = splitAnchor(requestedPath);
+  const fullPath = await resolveWithinRoot(docsBaseDir, docPath);
   void logger.debug(`Reading MDX content from: ${fullPath}`);
 
   // Check if path exists
@@ -44,6 +251,17 @@ async function readMdxContent(docPath: string, queryKeywords: string[]): Promise
     const stats = await fs.stat(fullPath);
 
     if (stats.isDirectory()) {
+      // Anchors only address sections within a file
+      if (anchor) return { found: false };
+
+      if (options.mode === 'tree') {
+        const tree = await buildNavigationTree(docPath.replace(/^\/+|\/+$/g, ''));
+        return {
+          found: true,
+          content: [`Navigation tree of ${docPath || 'the documentation'}:`, '', ...tree].join('\n'),
+        };
+      }
+
       const { dirs, files } = await listDirContents(fullPath);
       const dirListing = [
         `Directory contents of ${docPath}:`,
@@ -52,11 +270,13 @@ async function readMdxContent(docPath: string, queryKeywords: string[]): Promise
         ...dirs.map(d => `- ${d}`),
         '',
         files.length > 0 ? 'Files in this directory:' : 'No files in this directory.',
-        ...files.map(f => `- ${f}`),
+        ...files.map(f => describeFile(path.posix.join(docPath, f), f)),
         '',
         '---',
         '',
-        'Contents of all files in this directory:',
+        options.mode === 'outline'
+          ? 'Outline of all files in this directory:'
+          : 'Contents of all files in this directory:',
         '',
       ].join('\n');
 
@@ -65,7 +285,8 @@ async function readMdxContent(docPath: string, queryKeywords: string[]): Promise
       for (const file of files) {
         const filePath = path.join(fullPath, file);
         const content = await fs.readFile(filePath, 'utf-8');
-        fileContents += `\n\n# ${file}\n\n${content}`;
+        const relativePath = path.posix.join(docPath, file);
+        fileContents += `\n\n# ${file}\n\n${renderDocument(relativePath, content, options)}`;
       }
 
       // Add content-based suggestions when query keywords are provided and path is a directory
@@ -73,26 +294,70 @@ async function readMdxContent(docPath: string, queryKeywords: string[]): Promise
 
       const suggestions = ['---', '', contentBasedSuggestions, ''].join('\n');
 
-      return { found: true, content: dirListing + fileContents + suggestions };
+      return { found: true, content: dirListing + fileContents, suggestions };
     }
 
-    // If it's a file, just read it
+    // If it's a file, read it and narrow down to the requested section
     const content = await fs.readFile(fullPath, 'utf-8');
-    return { found: true, content };
+    // Raw output is the page source alone, its URL goes in the header instead
+    const rawUrl = options.format === 'raw' && options.mode === 'content' ? getPageUrl(docPath, anchor) : null;
+    const header = rawUrl ? `Canonical URL: ${rawUrl}` : undefined;
+    if (!anchor) {
+      return { found: true, content: renderDocument(docPath, content, options), header };
+    }
+    const headings = extractHeadings(content);
+    const sectionHeadings = findSectionHeadings(headings, anchor);
+    const section = extractSection(content, anchor);
+    if (section === null || sectionHeadings === null) {
+      return { found: false, anchors: headings };
+    }
+    return {
+      found: true,
+      content: renderDocument(docPath, section, options, { anchor, headings: sectionHeadings }),
+      header,
+    };
   } catch (error: any) {
-    void logger.error(`Failed to read MDX content: ${fullPath}`, error);
     if (error.code === 'ENOENT') {
+      // Serve the matching page when the path differs in case or extension, or the page has moved
+      const resolved = resolveRequestedPath(docPath);
+      if (resolved && resolved.path !== docPath) {
+        const resolvedPath = anchor ? `${resolved.path}#${anchor}` : resolved.path;
+        const result = await readMdxContent(resolvedPath, queryKeywords, options);
+        if (!result.found) return result;
+        const note = `Served "${resolvedPath}" (${resolved.redirected ? 'redirected' : 'resolved'} from "${requestedPath}").`;
+        return { ...result, header: result.header ? `${note}\n${result.header}` : note };
+      }
       // Only fallback for not found
+      void logger.error(`Failed to read MDX content: ${fullPath}`, error);
       return { found: false };
     }
     // Unexpected error: rethrow
+    void logger.error(`Failed to read MDX content: ${fullPath}`, error);
     throw error;
   }
 }
 
+// Helper function to list the anchors of a file when the requested one doesn't exist
+function listAvailableAnchors(requestedPath: string, anchors: Heading[]): string {
+  const { filePath, anchor } = splitAnchor(requestedPath);
+  if (anchors.length === 0) {
+    return `Anchor "#${anchor}" not found. "${filePath}" has no headings.`;
+  }
+  const minDepth = Math.min(...anchors.map(heading => heading.depth));
+  return [
+    `Anchor "#${anchor}" not found in "${filePath}".`,
+    `Here are the available anchors in "${filePath}":`,
+    '',
+    ...anchors.map(
+      heading => `${'  '.repeat(heading.depth - minDepth)}- ${filePath}#${heading.slug} (${heading.text})`,
+    ),
+  ].join('\n');
+}
+
 // Helper function to find nearest existing directory and its contents
-async function findNearestDirectory(docPath: string, availablePaths: string): Promise<string> {
-  void logger.debug(`Finding nearest directory for: ${docPath}`);
+async function findNearestDirectory(requestedPath: string, availablePaths: string): Promise<string> {
+  void logger.debug(`Finding nearest directory for: ${requestedPath}`);
+  const docPath = splitAnchor(requestedPath).filePath;
   // Split path into parts and try each parent directory
   const parts = docPath.split('/');
 
@@ -105,14 +370,14 @@ async function findNearestDirectory(docPath: string, availablePaths: string): Pr
       if (stats.isDirectory()) {
         const { dirs, files } = await listDirContents(fullPath);
         return [
-          `Path "${docPath}" not found.`,
+          `Path "${requestedPath}" not found.`,
           `Here are the available paths in "${testPath}":`,
           '',
           dirs.length > 0 ? 'Directories:' : 'No subdirectories.',
           ...dirs.map(d => `- ${testPath}/${d}`),
           '',
           files.length > 0 ? 'Files:' : 'No files.',
-          ...files.map(f => `- ${testPath}/${f}`),
+          ...files.map(f => describeFile(`${testPath}/${f}`)),
         ].join('\n');
       }
     } catch {
@@ -123,7 +388,7 @@ async function findNearestDirectory(docPath: string, availablePaths: string): Pr
   }
 
   // If no parent directories found, return root listing
-  return [`Path "${docPath}" not found.`, 'Here are all available paths:', '', availablePaths].join('\n');
+  return [`Path "${requestedPath}" not found.`, 'Here are all available paths:', '', availablePaths].join('\n');
 }
 
 // Get initial directory listing for the description
@@ -147,7 +412,7 @@ async function getAvailablePaths(): Promise<string> {
     ...referenceDirs.map(d => `- ${d}`),
     '',
     'Files:',
-    ...files.map(f => `- ${f}`),
+    ...files.map(f => describeFile(f)),
   ]
     .filter(Boolean)
     .join('\n');
@@ -160,13 +425,49 @@ export const docsInputSchema = z.object({
   paths: z
     .array(z.string())
     .min(1)
-    .describe(`One or more documentation paths to fetch\nAvailable paths:\n${availablePaths}`),
+    .describe(
+      `One or more documentation paths to fetch. Append "#heading-slug" to a file path to fetch only that section.\nAvailable paths:\n${availablePaths}`,
+    ),
   queryKeywords: z
     .array(z.string())
     .optional()
     .describe(
       'Keywords from user query to use for matching documentation. Each keyword should be a single word or short phrase; any whitespace-separated keywords will be split automatically.',
     ),
+  format: z
+    .enum(['raw', 'markdown'])
+    .optional()
+    .describe(
+      'Output format. "markdown" (default) removes MDX imports and converts docs components such as tabs, callouts and property tables into plain markdown. "raw" returns the MDX source.',
+    ),
+  mode: z
+    .enum(['content', 'outline', 'tree'])
+    .optional()
+    .describe(
+      'What to return for each path. "content" (default) returns the page content. "outline" returns the title, description and heading tree of a file, or of every file in a directory, with an anchor for each heading. "tree" returns every page and section below a directory in the docs site navigation order; use the path "" for the whole documentation.',
+    ),
+  maxChars: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe(
+      `Maximum number of characters to return per path. Longer content is split into pages. Defaults to ${DEFAULT_MAX_CHARS}.`,
+    ),
+  maxTokens: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe(
+      'Maximum number of tokens to return per path, estimated from the character count. Alternative to maxChars.',
+    ),
+  cursor: z
+    .string()
+    .optional()
+    .describe(
+      'Continuation cursor from a previous mastraDocs response. Pass it together with the same path to get the next page.',
+    ),
 });
 
 export type DocsInput = z.infer<typeof docsInputSchema>;
@@ -181,11 +482,16 @@ export const docsTool = {
     If the user asks about a feature check general docs as well as reference docs for that feature. 
     Ex: with evals check in evals/ and in reference/evals/. 
     Provide code examples so the user understands. 
-    If you build a URL from the path, only paths ending in .mdx exist. 
-    Note that docs about MCP are currently in reference/tools/. 
+    Paths are case-insensitive, the .mdx extension is optional and old paths of moved pages are redirected. 
+    Links inside pages point to paths you can request. When linking the user to a page, use its canonical URL. 
+    To read a single section of a long page, request "path/to/file.mdx#heading-slug"; unknown anchors list the available ones. 
+    Use mode "outline" to see the structure of a page or directory before fetching content. 
+    Use mode "tree" to see the navigation hierarchy of the docs; listings follow the docs site reading order. 
+    Long results are split into pages; pass the returned cursor with the same path to continue reading. 
     IMPORTANT: Be concise with your answers. The user will ask for more info. 
     If packages need to be installed, provide the pnpm command to install them. 
-    Ex. if you see \`import { X } from "@mastra/$PACKAGE_NAME"\` in an example, show an install command. 
+    Ex. if you see \`import { X } from "@mastra/$PACKAGE_NAME"\` in an example, pass the import to the mastraInstall tool 
+    to get the package, its install command and current version instead of guessing them. 
     Always install latest tag, not alpha unless requested. If you scaffold a new project it may be in a subdir.
     When displaying results, always mention which file path contains the information (e.g., 'Found in "path/to/file.mdx"') so users know where this documentation lives.`,
   parameters: docsInputSchema,
@@ -193,17 +499,58 @@ export const docsTool = {
     void logger.debug('Executing mastraDocs tool', { args });
     try {
       const queryKeywords = args.queryKeywords ?? [];
+      const budgets = [args.maxChars, args.maxTokens && args.maxTokens * CHARS_PER_TOKEN].filter(
+        (budget): budget is number => !!budget,
+      );
+      const maxChars = budgets.length > 0 ? Math.min(...budgets) : DEFAULT_MAX_CHARS;
+      const cursor = args.cursor ? decodeCursor(args.cursor) : null;
+      if (args.cursor && !cursor) {
+        return `Invalid cursor "${args.cursor}". Request the path again without a cursor to start from the first page.`;
+      }
       const results = await Promise.all(
         args.paths.map(async (path: string) => {
           try {
-            const result = await readMdxContent(path, queryKeywords);
+            const result = await readMdxContent(path, queryKeywords, {
+              format: args.format ?? 'markdown',
+              mode: args.mode ?? 'content',
+            });
             if (result.found) {
+              const offset = cursor?.path === path ? cursor.offset : 0;
+              if (offset > 0 && offset >= result.content.length) {
+                return {
+                  path,
+                  content: null,
+                  error: `Cursor is past the end of "${path}". All content has already been returned.`,
+                };
+              }
+
+              const { page, nextOffset } = paginateContent(result.content, offset, maxChars);
+              const header = result.header ? `${result.header}\n\n` : '';
+              if (nextOffset === null) {
+                return {
+                  path,
+                  content: `${header}${page}${result.suggestions ?? ''}`,
+                  error: null,
+                };
+              }
+              const nextCursor = encodeCursor({ path, offset: nextOffset });
               return {
                 path,
-                content: result.content,
+                content: [
+                  `${header}${page}`,
+                  '',
+                  `[Showing characters ${offset + 1}-${nextOffset} of ${result.content.length}. More content is available: call mastraDocs again with paths ${JSON.stringify([path])} and cursor "${nextCursor}".]`,
+                ].join('\n'),
                 error: null,
               };
             }
+            if (result.anchors) {
+              return {
+                path,
+                content: null,
+                error: listAvailableAnchors(path, result.anchors),
+              };
+            }
             const directorySuggestions = await findNearestDirectory(path, availablePaths);
             const contentBasedSuggestions = await getMatchingPaths(path, queryKeywords, docsBaseDir);
             return {
@@ -213,6 +560,9 @@ export const docsTool = {
             };
           } catch (error) {
             void logger.warning(`Failed to read content for path: ${path}`, error);
+            if (error instanceof PathAccessError) {
+              return { path, content: null, error: error.toResponse() };
+            }
             return {
               path,
               content: null,
@@ -1,11 +1,16 @@
 import fs from 'node:fs/promises';
-import path from 'node:path';
 import { z } from 'zod';
+import { getExamplesManifest } from '../examples-manifest';
+import type { ExampleEntry, ExampleFile, ExamplesManifest } from '../examples-manifest';
 import { logger } from '../logger';
-import { fromPackageRoot, getMatchingPaths } from '../utils';
+import { resolvePackageName, suggestPackageNames } from '../package-names';
+import { PathAccessError, resolveWithinRoot } from '../sandbox';
+import { fromPackageRoot } from '../utils';
 
 const examplesDir = fromPackageRoot('.docs/organized/code-examples');
 
+const MAX_SUGGESTED_EXAMPLES = 5;
+
 // Helper function to list code examples
 async function listCodeExamples(): Promise<Array<{ name: string; path: string }>> {
   void logger.debug('Listing code examples');
@@ -23,9 +28,112 @@ async function listCodeExamples(): Promise<Array<{ name: string; path: string }>
   }
 }
 
+// Helper function to describe an example in a listing, with its summary when the prepare step found one
+function formatExample(name: string, manifest: ExamplesManifest, detail?: string): string {
+  const summary = Object.hasOwn(manifest.examples, name) ? manifest.examples[name].summary : null;
+  return `- ${name}${summary ? ` — ${summary}` : ''}${detail ? `\n  ${detail}` : ''}`;
+}
+
+// Helper function to get the package of an import: `@mastra/core/workflows` → `@mastra/core`
+function toPackageName(module: string): string {
+  return module.split('/').slice(0, 2).join('/');
+}
+
+// Helper function to list what an example imports from a package, or how else it depends on it
+function describePackageUse(entry: ExampleEntry, packageName: string): string | null {
+  const names = Object.entries(entry.imports)
+    .filter(([module]) => toPackageName(module) === packageName)
+    .flatMap(([, imported]) => imported);
+  if (names.length > 0) return `Imports ${Array.from(new Set(names)).join(', ')} from ${packageName}`;
+  return entry.dependencies.includes(packageName) ? `Depends on ${packageName}` : null;
+}
+
+// Helper function to list the imports of an example matching an API name like `createWorkflow` or `Agent.generate`
+function describeApiUse(entry: ExampleEntry, api: string): string | null {
+  const name = api.trim().split('.')[0].toLowerCase();
+  const matches = Object.entries(entry.imports).flatMap(([module, imported]) =>
+    imported
+      .filter(importedName => importedName.toLowerCase() === name)
+      .map(importedName => `${importedName} from ${module}`),
+  );
+  return matches.length > 0 ? `Imports ${matches.join(', ')}` : null;
+}
+
+// Helper function to find the examples using a package and/or an API
+function findExamples(manifest: ExamplesManifest, packageQuery?: string, api?: string): string {
+  const usedPackages = Array.from(
+    new Set(
+      Object.values(manifest.examples).flatMap(entry => [
+        ...entry.dependencies,
+        ...Object.keys(entry.imports).map(toPackageName),
+      ]),
+    ),
+  ).sort();
+  // Short names mean the Mastra package: "pg" is @mastra/pg rather than node-postgres
+  const scoped = `@mastra/${packageQuery}`;
+  const packageName = !packageQuery
+    ? null
+    : usedPackages.includes(scoped)
+      ? scoped
+      : (resolvePackageName(packageQuery, usedPackages) ?? packageQuery);
+
+  const matches = Object.keys(manifest.examples)
+    .sort()
+    .flatMap(name => {
+      const entry = manifest.examples[name];
+      const details = [
+        packageName ? describePackageUse(entry, packageName) : '',
+        api ? describeApiUse(entry, api) : '',
+      ];
+      return details.includes(null) ? [] : [formatExample(name, manifest, details.filter(Boolean).join('; '))];
+    });
+
+  const criteria = [...(packageName ? [`using ${packageName}`] : []), ...(api ? [`importing ${api.trim()}`] : [])].join(
+    ' and ',
+  );
+  if (matches.length === 0) {
+    const suggestions =
+      packageQuery && packageName === packageQuery.trim() ? suggestPackageNames(packageQuery, usedPackages) : [];
+    return [
+      `No examples found ${criteria}.`,
+      ...(suggestions.length > 0
+        ? ['', 'Packages used by examples with a similar name:', ...suggestions.map(name => `- ${name}`)]
+        : []),
+    ].join('\n');
+  }
+  return [`Examples ${criteria} (${matches.length}):`, '', ...matches].join('\n');
+}
+
+// Helper function to rank examples by how many of the words from the query their name, summary,
+// dependencies and imports contain
+function suggestExamples(manifest: ExamplesManifest, words: string[]): string[] {
+  const terms = Array.from(new Set(words.flatMap(word => word.toLowerCase().split(/[\s\-_./]+/)))).filter(
+    term => term.length >= 2 && term !== 'md',
+  );
+  return Object.entries(manifest.examples)
+    .map(([name, entry]) => {
+      const used = [...entry.dependencies, ...Object.keys(entry.imports), ...Object.values(entry.imports).flat()]
+        .join(' ')
+        .toLowerCase();
+      const score = terms.reduce(
+        (total, term) =>
+          total +
+          (name.toLowerCase().includes(term) ? 3 : 0) +
+          (used.includes(term) ? 2 : 0) +
+          (entry.summary?.toLowerCase().includes(term) ? 1 : 0),
+        0,
+      );
+      return { name, score };
+    })
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score || a.name.localeCompare(b.name))
+    .slice(0, MAX_SUGGESTED_EXAMPLES)
+    .map(({ name }) => name);
+}
+
 // Helper function to read a code example
 async function readCodeExample(filename: string, queryKeywords: string[]): Promise<string> {
-  const filePath = path.join(examplesDir, filename);
+  const filePath = await resolveWithinRoot(examplesDir, filename);
   void logger.debug(`Reading example: ${filename}`);
 
   try {
@@ -33,12 +141,76 @@ async function readCodeExample(filename: string, queryKeywords: string[]): Promi
     return content;
   } catch {
     const examples = await listCodeExamples();
+    const manifest = await getExamplesManifest();
     const availableExamples = examples.map(ex => `- ${ex.name}`).join('\n');
-    const contentBasedSuggestions = await getMatchingPaths(filename, queryKeywords, examplesDir);
-    return `Example "${filename}" not found.\n\nAvailable examples:\n${availableExamples}\n\n${contentBasedSuggestions}`;
+    const suggestions = suggestExamples(manifest, [filename, ...queryKeywords]);
+    return [
+      `Example "${filename}" not found.`,
+      '',
+      `Available examples:\n${availableExamples}`,
+      ...(suggestions.length > 0
+        ? ['', 'Examples that might be relevant:', ...suggestions.map(name => formatExample(name, manifest))]
+        : []),
+    ].join('\n');
   }
 }
 
+// Helper function to list the files of an example with their line counts
+function formatFileList(name: string, files: ExampleFile[]): string {
+  const totalLines = files.reduce((total, file) => total + file.lines, 0);
+  return [
+    `Files in example "${name}" (${files.length} files, ${totalLines} lines):`,
+    '',
+    ...files.map(file => `- ${file.path} (${file.lines} lines)`),
+    '',
+    'Pass "files" with one or more of these paths to read them.',
+  ].join('\n');
+}
+
+// Helper function to find a file of an example by its path or the end of it: `src/mastra/index.ts`,
+// `mastra/index.ts` or `agents/index.ts` when no other file ends the same way
+function findExampleFile(files: ExampleFile[], requested: string): ExampleFile | ExampleFile[] | null {
+  const normalized = requested
+    .trim()
+    .replace(/\\/g, '/')
+    .replace(/^(\.?\/)+/, '')
+    .replace(/^src\//, '');
+  const exact = files.find(file => file.path === normalized);
+  if (exact) return exact;
+  const candidates = files.filter(file => file.path.endsWith(`/${normalized}`));
+  if (candidates.length === 1) return candidates[0];
+  return candidates.length > 1 ? candidates : null;
+}
+
+// Helper function to list the files of an example, or read the chosen ones
+async function readExampleFiles(filename: string, requested: string[], queryKeywords: string[]): Promise<string> {
+  const filePath = await resolveWithinRoot(examplesDir, filename);
+  const name = filename.replace(/\.md$/, '');
+  const manifest = await getExamplesManifest();
+  if (!Object.hasOwn(manifest.examples, name)) return readCodeExample(filename, queryKeywords);
+
+  const { files } = manifest.examples[name];
+  if (requested.length === 0) return formatFileList(name, files);
+
+  const lines = (await fs.readFile(filePath, 'utf-8')).split('\n');
+  const sections: string[] = [];
+  const problems: string[] = [];
+  for (const path of requested) {
+    const match = findExampleFile(files, path);
+    if (!match) {
+      problems.push(`File "${path}" not found in example "${name}".`);
+    } else if (Array.isArray(match)) {
+      problems.push(`"${path}" matches several files: ${match.map(file => file.path).join(', ')}. Pass the full path.`);
+    } else {
+      const content = lines.slice(match.startLine, match.startLine + match.lines).join('\n');
+      sections.push(`### ${match.path}\n\`\`\`${match.language}\n${content}\n\`\`\`\n`);
+    }
+  }
+
+  if (sections.length === 0) return [...problems, '', formatFileList(name, files)].join('\n');
+  return [sections.join('\n').trimEnd(), ...(problems.length > 0 ? ['', ...problems] : [])].join('\n');
+}
+
 // Get initial examples for the description
 const initialExamples = await listCodeExamples();
 const examplesListing =
@@ -53,6 +225,24 @@ export const examplesInputSchema = z.object({
     .describe(
       'Name of the specific example to fetch. If not provided, lists all available examples.' + examplesListing,
     ),
+  files: z
+    .array(z.string())
+    .optional()
+    .describe(
+      'Files of the example to return instead of the whole example, e.g. ["mastra/agents/index.ts"]. Paths are relative to the example\'s src directory; a unique end of a path like "agents/index.ts" works too.',
+    ),
+  listFiles: z
+    .boolean()
+    .optional()
+    .describe("List the example's files with their line counts instead of returning its source code."),
+  package: z
+    .string()
+    .optional()
+    .describe('Only list examples that depend on or import from this package, e.g. "@mastra/pg" or "pg".'),
+  api: z
+    .string()
+    .optional()
+    .describe('Only list examples that import this API from a @mastra package, e.g. "createWorkflow" or "Agent".'),
   queryKeywords: z
     .array(z.string())
     .optional()
@@ -68,20 +258,32 @@ export const examplesTool = {
   description: `Get code examples from the Mastra.ai examples directory. 
     Without a specific example name, lists all available examples. 
     With an example name, returns the full source code of that example.
+    Pass "listFiles" to see an example's files with their line counts, and "files" to read only some of them.
+    Without an example name, "package" and "api" find the examples that use a package or import an API,
+    like the examples using @mastra/pg or calling createWorkflow.
     You can also use keywords from the user query to find relevant examples, but prioritize example names.`,
   parameters: examplesInputSchema,
   execute: async (args: ExamplesInput) => {
     void logger.debug('Executing mastraExamples tool', { example: args.example });
     try {
       if (!args.example) {
+        const manifest = await getExamplesManifest();
+        if (args.package?.trim() || args.api?.trim()) {
+          return findExamples(manifest, args.package?.trim() || undefined, args.api?.trim() || undefined);
+        }
         const examples = await listCodeExamples();
-        return ['Available code examples:', '', ...examples.map(ex => `- ${ex.name}`)].join('\n');
+        return ['Available code examples:', '', ...examples.map(ex => formatExample(ex.name, manifest))].join('\n');
       }
 
       const filename = args.example.endsWith('.md') ? args.example : `${args.example}.md`;
+      if (args.listFiles || (args.files && args.files.length > 0)) {
+        return await readExampleFiles(filename, args.files ?? [], args.queryKeywords || []);
+      }
+
       const result = await readCodeExample(filename, args.queryKeywords || []);
       return result;
     } catch (error) {
+      if (error instanceof PathAccessError) return error.toResponse();
       void logger.error('Failed to execute mastraExamples tool', error);
       throw error;
     }
@@ -0,0 +1,191 @@
+import { z } from 'zod';
+import { getPackageVersions, getPrereleaseTag, readChangelog } from '../changelog';
+import { getCanonicalUrl } from '../docs-links';
+import { logger } from '../logger';
+import { findSymbols, suggestSymbols } from '../symbol-index';
+import type { SymbolIndex } from '../symbol-index';
+import { getSymbolIndex } from '../utils';
+
+// `import X, { A, type B as C } from 'module'`, `export { A } from 'module'`, `import 'module'` and `require('module')`
+const MODULE_REFERENCE =
+  /\b(?:import|export)\s+(?:type\s+)?([^;'"]*?)\s*from\s*["']([^"']+)["']|\bimport\s*["']([^"']+)["']|\b(?:const|let|var)\s+([^=;]+?)\s*=\s*require\(\s*["']([^"']+)["']\s*\)|\brequire\(\s*["']([^"']+)["']\s*\)/g;
+
+interface ModuleImport {
+  module: string;
+  names: string[];
+}
+
+interface PackageImports {
+  packageName: string;
+  modules: Set<string>;
+  names: string[];
+}
+
+// Helper function to list the bindings of an import clause: `X, { A, B as C }` → X, A, B
+function parseImportedNames(clause: string): string[] {
+  const names: string[] = [];
+  const braces = clause.match(/\{([^}]*)\}/);
+  if (braces) {
+    names.push(
+      ...braces[1]
+        .split(',')
+        .map(specifier =>
+          specifier
+            .replace(/^\s*type\s+/, '')
+            .split(/\s+as\s+|\s*:\s*/)[0]
+            .trim(),
+        )
+        .filter(Boolean),
+    );
+  }
+  // The default import before the braces: `X, { ... }` or `X`
+  const defaultImport = clause.replace(/\{[^}]*\}/, '').match(/^\s*([A-Za-z_$][\w$]*)\s*(,|$)/);
+  if (defaultImport && defaultImport[1] !== 'type') names.push(defaultImport[1]);
+  return names;
+}
+
+// Helper function to find the modules an import statement (or several) pulls in
+function parseModuleImports(statement: string): ModuleImport[] {
+  return Array.from(statement.matchAll(MODULE_REFERENCE), match => {
+    const [, clause, fromModule, sideEffectModule, binding, requiredModule, bareRequire] = match;
+    return {
+      module: fromModule ?? sideEffectModule ?? requiredModule ?? bareRequire,
+      names: clause ? parseImportedNames(clause) : binding ? parseImportedNames(binding) : [],
+    };
+  });
+}
+
+// Helper function to get the package of a module specifier: `@mastra/core/agent` → `@mastra/core`
+function toPackageName(module: string): string | null {
+  if (/^(\.|\/|node:)/.test(module)) return null;
+  const segments = module.split('/');
+  return module.startsWith('@') ? segments.slice(0, 2).join('/') : segments[0];
+}
+
+// Helper function to find the module a bare symbol name is imported from in the docs
+function findSymbolModule(index: SymbolIndex, symbol: string): string | null {
+  const documented = findSymbols(index, symbol).find(entry => entry.importPath);
+  if (documented) return documented.importPath;
+  const name = symbol.trim().split('.')[0];
+  return Object.hasOwn(index.importSources, name) ? index.importSources[name] : null;
+}
+
+// Helper function to describe the reference page of a name imported from `packageName`
+function describeReference(index: SymbolIndex, name: string, packageName: string): string {
+  // Other packages may export something with the same name, like `openai` from `@ai-sdk/openai`
+  const match = findSymbols(index, name).find(
+    entry => entry.importPath && toPackageName(entry.importPath) === packageName,
+  );
+  if (!match) return `- ${name} — no reference page found`;
+  const url = getCanonicalUrl(match.path.split('#')[0]);
+  return `- ${name} — ${match.path}${url ? ` (${url})` : ''}`;
+}
+
+// Helper function to describe one package: install command, version and documented symbols
+async function describePackage(
+  index: SymbolIndex,
+  { packageName, modules, names }: PackageImports,
+): Promise<{ installSpec: string; description: string }> {
+  const changelog = await readChangelog(packageName);
+  const versions = changelog ? getPackageVersions(changelog) : null;
+  // Mastra packages publish prereleases too, so the latest tag is pinned explicitly
+  const installSpec = changelog ? `${packageName}@latest` : packageName;
+  const lines = [
+    `## ${packageName}`,
+    '',
+    `Import from: ${Array.from(modules).join(', ')}`,
+    `Install: \`pnpm add ${installSpec}\``,
+  ];
+
+  if (!changelog) {
+    lines.push('Version: not a Mastra package, check its own documentation for the current version.');
+  } else if (!versions) {
+    lines.push('Version: not listed in the changelog.');
+  } else {
+    const prereleaseTag = getPrereleaseTag(versions.latest);
+    if (!prereleaseTag) {
+      lines.push(`Current version: ${versions.latest}`);
+    } else {
+      lines.push(
+        `Current version: ${versions.latest} (prerelease)`,
+        ...(versions.latestStable ? [`Latest stable release in the changelog: ${versions.latestStable}`] : []),
+        `Install the prerelease only when asked: \`pnpm add ${packageName}@${prereleaseTag}\``,
+      );
+    }
+  }
+
+  // Only Mastra packages are documented in the reference
+  if (changelog && names.length > 0) {
+    lines.push('', 'Reference:', ...names.map(name => describeReference(index, name, packageName)));
+  }
+  return { installSpec, description: lines.join('\n') };
+}
+
+export const installInputSchema = z.object({
+  statement: z
+    .string()
+    .min(1)
+    .describe(
+      'An import statement such as `import { Agent } from "@mastra/core/agent"` (several lines are fine), or a bare symbol name such as "Agent" or "createWorkflow".',
+    ),
+});
+
+export type InstallInput = z.infer<typeof installInputSchema>;
+
+export const installTool = {
+  name: 'mastraInstall',
+  description: `Resolve an import statement or a symbol name to the package that provides it.
+    Returns the package name, the pnpm command to install it, its current version from the Mastra changelogs
+    and the reference page documenting each imported symbol.
+    Use it whenever code needs a Mastra package installed instead of guessing the package or the install command.`,
+  parameters: installInputSchema,
+  execute: async (args: InstallInput) => {
+    void logger.debug('Executing mastraInstall tool', { args });
+    try {
+      const index = await getSymbolIndex();
+      let imports = parseModuleImports(args.statement);
+
+      if (imports.length === 0) {
+        const symbol = args.statement.trim();
+        const module = findSymbolModule(index, symbol);
+        if (!module) {
+          const suggestions = suggestSymbols(index, symbol);
+          return [
+            `Couldn't find the package that exports "${symbol}". Pass an import statement or an exported symbol name.`,
+            ...(suggestions.length > 0 ? ['', 'Did you mean:', ...suggestions.map(name => `- ${name}`)] : []),
+          ].join('\n');
+        }
+        imports = [{ module, names: [symbol] }];
+      }
+
+      const packages = new Map<string, PackageImports>();
+      const skipped: string[] = [];
+      for (const { module, names } of imports) {
+        const packageName = toPackageName(module);
+        if (!packageName) {
+          skipped.push(module);
+          continue;
+        }
+        const entry = packages.get(packageName) ?? { packageName, modules: new Set<string>(), names: [] };
+        entry.modules.add(module);
+        entry.names.push(...names.filter(name => !entry.names.includes(name)));
+        packages.set(packageName, entry);
+      }
+
+      if (packages.size === 0) {
+        return `No packages to install: ${skipped.map(module => `"${module}"`).join(', ')} ${skipped.length === 1 ? 'is' : 'are'} not a package.`;
+      }
+
+      const described = await Promise.all(Array.from(packages.values(), entry => describePackage(index, entry)));
+      return [
+        `Install all: \`pnpm add ${described.map(({ installSpec }) => installSpec).join(' ')}\``,
+        ...(skipped.length > 0 ? [`Skipped local or built-in modules: ${skipped.join(', ')}`] : []),
+        '',
+        described.map(({ description }) => description).join('\n\n'),
+      ].join('\n');
+    } catch (error) {
+      void logger.error('Failed to execute mastraInstall tool', error);
+      throw error;
+    }
+  },
+};
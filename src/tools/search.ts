@@ -0,0 +1,148 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { z } from 'zod';
+import { logger } from '../logger';
+import { extractHeadings } from '../mdx';
+import { tokenize } from '../search-index';
+import { fromPackageRoot, rankDocuments } from '../utils';
+
+const docsBaseDir = fromPackageRoot('.docs/raw/');
+
+// Number of lines shown around the best matching line of a section
+const EXCERPT_CONTEXT_LINES = 3;
+
+interface SectionMatch {
+  heading: string;
+  slug: string;
+  startLine: number;
+  endLine: number;
+  excerpt: string;
+}
+
+// Helper function to wrap query terms in bold, leaving inline code and link targets untouched
+function highlightLine(line: string, terms: Set<string>): string {
+  return line
+    .split(/(`[^`]*`|\]\([^)]*\))/)
+    .map((segment, i) =>
+      i % 2 === 1
+        ? segment
+        : segment.replace(/[A-Za-z0-9]+/g, word =>
+            tokenize(word).some(token => terms.has(token)) ? `**${word}**` : word,
+          ),
+    )
+    .join('');
+}
+
+// Helper function to find the section of a document that best matches the query terms
+function findBestSection(content: string, terms: Set<string>): SectionMatch | null {
+  const lines = content.split('\n');
+  const headings = extractHeadings(content);
+  const sections =
+    headings.length > 0
+      ? headings.map((heading, i) => ({
+          heading: heading.text,
+          slug: heading.slug,
+          startLine: heading.line,
+          endLine: (headings[i + 1]?.line ?? lines.length + 1) - 1,
+        }))
+      : [{ heading: '', slug: '', startLine: 1, endLine: lines.length }];
+
+  let best: { section: (typeof sections)[number]; score: number; bestLine: number } | null = null;
+  for (const section of sections) {
+    let score = tokenize(section.heading).filter(token => terms.has(token)).length * 3;
+    let bestLine = section.startLine;
+    let bestLineScore = 0;
+    for (let lineNumber = section.startLine; lineNumber <= section.endLine; lineNumber++) {
+      const lineScore = tokenize(lines[lineNumber - 1]).filter(token => terms.has(token)).length;
+      score += lineScore;
+      if (lineScore > bestLineScore) {
+        bestLineScore = lineScore;
+        bestLine = lineNumber;
+      }
+    }
+    if (score > 0 && (!best || score > best.score)) {
+      best = { section, score, bestLine };
+    }
+  }
+
+  if (!best) return null;
+
+  const excerptStart = Math.max(best.section.startLine, best.bestLine - EXCERPT_CONTEXT_LINES);
+  const excerptEnd = Math.min(best.section.endLine, best.bestLine + EXCERPT_CONTEXT_LINES);
+
+  // Track code fences from the top of the section so highlighting never lands inside code
+  let inCodeBlock = false;
+  const excerptLines: string[] = [];
+  for (let lineNumber = best.section.startLine; lineNumber <= excerptEnd; lineNumber++) {
+    const line = lines[lineNumber - 1];
+    const isFence = /^\s*(```|~~~)/.test(line);
+    if (lineNumber === excerptStart && inCodeBlock) {
+      // Reopen a code block that started above the excerpt
+      excerptLines.push('```');
+    }
+    if (lineNumber >= excerptStart) {
+      excerptLines.push(inCodeBlock || isFence ? line : highlightLine(line, terms));
+    }
+    if (isFence) inCodeBlock = !inCodeBlock;
+  }
+  // Close a code block that the excerpt cut in half
+  if (inCodeBlock) excerptLines.push('```');
+
+  return {
+    heading: best.section.heading,
+    slug: best.section.slug,
+    startLine: best.section.startLine,
+    endLine: best.section.endLine,
+    excerpt: excerptLines.join('\n').trim(),
+  };
+}
+
+export const searchInputSchema = z.object({
+  query: z.string().min(1).describe('Free-text search query, e.g. "how to add memory to an agent"'),
+  limit: z.number().int().min(1).max(20).optional().describe('Maximum number of results to return. Defaults to 5.'),
+});
+
+export type SearchInput = z.infer<typeof searchInputSchema>;
+
+export const searchTool = {
+  name: 'mastraSearch',
+  description: `Search the Mastra.ai documentation.
+    Returns ranked results with the documentation path, the best matching section heading,
+    the line range of that section inside the file and a short excerpt with matching terms in bold.
+    Use the returned paths with the mastraDocs tool to read the full page, or the "path#anchor" form to read only that section.`,
+  parameters: searchInputSchema,
+  execute: async (args: SearchInput) => {
+    void logger.debug('Executing mastraSearch tool', { args });
+    try {
+      const results = await rankDocuments([args.query], docsBaseDir, args.limit ?? 5);
+      if (results.length === 0) {
+        return `No documentation found for "${args.query}".`;
+      }
+
+      const hits = await Promise.all(
+        results.map(async (result, i) => {
+          const content = await fs.readFile(path.join(docsBaseDir, result.path), 'utf-8');
+          const section = findBestSection(content, new Set(result.matchedTerms));
+          const header = `## ${i + 1}. ${result.path} (score ${result.score.toFixed(2)})`;
+          if (!section) {
+            return [header, '', `Title: ${result.title}`].join('\n');
+          }
+          return [
+            header,
+            '',
+            `Title: ${result.title}`,
+            section.slug ? `Section: ${section.heading} (${result.path}#${section.slug})` : 'Section: (top of page)',
+            `Lines: ${section.startLine}-${section.endLine}`,
+            '',
+            section.excerpt,
+          ].join('\n');
+        }),
+      );
+
+      return [`Search results for "${args.query}":`, '', hits.join('\n\n---\n\n')].join('\n');
+    } catch (error) {
+      void logger.error('Failed to execute mastraSearch tool', error);
+      throw error;
+    }
+  },
+};
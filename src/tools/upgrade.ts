@@ -0,0 +1,266 @@
+import { z } from 'zod';
+import {
+  CHANGE_TYPES,
+  compareVersions,
+  formatChangelogEntry,
+  getChangelogIndex,
+  isBreakingChange,
+  isDependencyUpdate,
+  selectReleases,
+  sortPackageNames,
+} from '../changelog';
+import type { ChangelogRelease } from '../changelog';
+import { logger } from '../logger';
+
+// Non-breaking entries listed per package, the rest are left to mastraChanges
+const MAX_OTHER_CHANGES = 15;
+
+const VERSION = /\d+\.\d+\.\d+(?:-[\w.]+)?/;
+
+// Dependency fields of package.json that can hold Mastra packages
+const DEPENDENCY_FIELDS = ['dependencies', 'devDependencies', 'peerDependencies', 'optionalDependencies'];
+
+interface InstalledPackage {
+  // Range from package.json or a lockfile importer, like `^0.15.0`
+  specifier: string | null;
+  // Exact version from a lockfile
+  version: string | null;
+}
+
+// Helper function to record what the manifest says about a package, keeping what's already known
+function record(packages: Map<string, InstalledPackage>, name: string, found: Partial<InstalledPackage>) {
+  const known = packages.get(name) ?? { specifier: null, version: null };
+  packages.set(name, {
+    specifier: known.specifier ?? found.specifier ?? null,
+    version: known.version ?? found.version ?? null,
+  });
+}
+
+// Helper function to read the `version` of a lockfile entry, null when the entry isn't an object with one
+function readEntryVersion(entry: unknown): string | null {
+  if (!entry || typeof entry !== 'object') return null;
+  const { version } = entry as Record<string, unknown>;
+  return typeof version === 'string' ? version : null;
+}
+
+// Helper function to read the packages of a parsed package.json or package-lock.json
+function readJsonManifest(manifest: Record<string, unknown>, packages: Map<string, InstalledPackage>) {
+  // package-lock.json v2 and v3: `"node_modules/@mastra/core": { "version": "0.15.2" }`, top-level installs first
+  if (manifest.packages && typeof manifest.packages === 'object') {
+    const entries = Object.entries(manifest.packages as Record<string, unknown>).sort(
+      ([a], [b]) => a.length - b.length,
+    );
+    for (const [key, value] of entries) {
+      const name = key.split('node_modules/').at(-1);
+      const version = readEntryVersion(value);
+      if (name && version) record(packages, name, { version });
+    }
+  }
+  for (const field of DEPENDENCY_FIELDS) {
+    const dependencies = manifest[field];
+    if (!dependencies || typeof dependencies !== 'object') continue;
+    for (const [name, value] of Object.entries(dependencies as Record<string, unknown>)) {
+      if (typeof value === 'string') {
+        record(packages, name, { specifier: value });
+        continue;
+      }
+      // package-lock.json v1 nests versions under `dependencies`
+      const version = readEntryVersion(value);
+      if (version) record(packages, name, { version });
+    }
+  }
+}
+
+// Helper function to read the Mastra packages of a manifest excerpt line by line: package.json lines,
+// pnpm-lock.yaml package keys and importers, and yarn.lock entries
+function readTextManifest(manifest: string, packages: Map<string, InstalledPackage>) {
+  // Packages named by the last key line, waiting for their `version` or `specifier` line
+  let pending: string[] = [];
+  for (const line of manifest.split('\n')) {
+    // `"@mastra/core": "^0.15.0",`
+    const jsonLine = line.match(/^\s*"((?:@[\w.-]+\/)?[\w.-]+)"\s*:\s*"([^"]+)"/);
+    if (jsonLine) {
+      record(packages, jsonLine[1], { specifier: jsonLine[2] });
+      continue;
+    }
+
+    // Key lines: `'@mastra/core@0.15.2(zod@3.25.76)':`, `/@mastra/core/0.15.2:`, `"@mastra/core@^0.15.0":`
+    // or an importer's `'@mastra/core':`
+    if (/:\s*$/.test(line) && line.includes('@mastra/')) {
+      pending = [];
+      for (const [, name, separator, rest] of line.matchAll(/(@mastra\/[\w.-]+)(?:([@/])([^\s,'":(]+))?/g)) {
+        const version = rest?.match(new RegExp(`^${VERSION.source}$`))?.[0];
+        if (version && separator) {
+          record(packages, name, { version });
+        } else {
+          if (rest) record(packages, name, { specifier: rest });
+          pending.push(name);
+        }
+      }
+      continue;
+    }
+
+    const field = line.match(/^\s*(version|specifier):?\s+["']?([^"'\s(]+)/);
+    if (field && pending.length > 0) {
+      for (const name of pending) {
+        record(packages, name, field[1] === 'version' ? { version: field[2] } : { specifier: field[2] });
+      }
+      continue;
+    }
+    if (/^\S/.test(line)) pending = [];
+  }
+}
+
+// Helper function to find the packages and versions a package.json or lockfile (excerpt) installs
+function readManifest(manifest: string): Map<string, InstalledPackage> {
+  const packages = new Map<string, InstalledPackage>();
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(manifest);
+  } catch {
+    // An excerpt or a YAML/yarn lockfile
+  }
+  if (parsed && typeof parsed === 'object') {
+    readJsonManifest(parsed as Record<string, unknown>, packages);
+  } else {
+    readTextManifest(manifest, packages);
+  }
+  return packages;
+}
+
+// Helper function to describe the changes a package picks up between the installed and the latest version
+function describeUpgrade(name: string, installed: string, latest: string, pending: ChangelogRelease[]): string {
+  const entries = pending.flatMap(release =>
+    release.entries.filter(entry => !isDependencyUpdate(entry)).map(entry => ({ release, entry })),
+  );
+  const breaking = entries.filter(({ entry }) => isBreakingChange(entry));
+  const other = entries
+    .filter(({ entry }) => !isBreakingChange(entry))
+    .sort((a, b) => CHANGE_TYPES.indexOf(a.entry.type) - CHANGE_TYPES.indexOf(b.entry.type));
+
+  return [
+    `## ${name}: ${installed} → ${latest}`,
+    '',
+    `Releases to pick up (${pending.length}): ${pending.map(release => release.version).join(', ')}`,
+    ...(breaking.length > 0
+      ? [
+          '',
+          `### Breaking changes (${breaking.length})`,
+          '',
+          ...breaking.map(({ release, entry }) => formatChangelogEntry(release, entry, { labels: entry.notices })),
+        ]
+      : []),
+    ...(other.length > 0
+      ? [
+          '',
+          `### Other changes (${other.length})`,
+          '',
+          ...other
+            .slice(0, MAX_OTHER_CHANGES)
+            .map(({ release, entry }) => formatChangelogEntry(release, entry, { firstLineOnly: true })),
+        ]
+      : []),
+    ...(other.length > MAX_OTHER_CHANGES
+      ? [
+          '',
+          `[${other.length - MAX_OTHER_CHANGES} more changes. Call mastraChanges with package "${name}", since "${installed}" and until "${latest}" for all of them.]`,
+        ]
+      : []),
+    ...(entries.length === 0 ? ['', 'Only dependency updates.'] : []),
+  ].join('\n');
+}
+
+export const upgradeInputSchema = z.object({
+  manifest: z
+    .string()
+    .min(1)
+    .describe(
+      "Contents of the project's package.json, or an excerpt of its package-lock.json, pnpm-lock.yaml or yarn.lock listing the installed @mastra packages. Lockfile versions are exact; package.json ranges are read as their lowest version.",
+    ),
+});
+
+export type UpgradeInput = z.infer<typeof upgradeInputSchema>;
+
+export const upgradeTool = {
+  name: 'mastraUpgrade',
+  description: `Plan an upgrade of the Mastra packages a project has installed.
+    Pass the contents of its package.json or a lockfile excerpt. Compares each installed @mastra package
+    with the latest release in the Mastra changelogs and lists the changes the project hasn't picked up yet,
+    breaking changes first, along with the command to upgrade.
+    Use it when asked to upgrade Mastra or to check whether a project is up to date.`,
+  parameters: upgradeInputSchema,
+  execute: async (args: UpgradeInput) => {
+    void logger.debug('Executing mastraUpgrade tool', { args });
+    try {
+      const index = await getChangelogIndex();
+      const installed = readManifest(args.manifest);
+      const names = sortPackageNames(
+        Array.from(installed.keys()).filter(name => Object.hasOwn(index.packages, name) || name.startsWith('@mastra/')),
+      );
+      if (names.length === 0) {
+        return 'No @mastra packages found. Pass the dependencies of package.json or the @mastra entries of a lockfile.';
+      }
+
+      const upgrades: string[] = [];
+      const upgradeSpecs: string[] = [];
+      const withBreakingChanges: string[] = [];
+      const upToDate: string[] = [];
+      const unknownVersions: string[] = [];
+      const notCovered: string[] = [];
+      for (const name of names) {
+        if (!Object.hasOwn(index.packages, name)) {
+          notCovered.push(name);
+          continue;
+        }
+        const { specifier, version } = installed.get(name)!;
+        const current = version ?? specifier?.match(VERSION)?.[0];
+        if (!current) {
+          unknownVersions.push(`${name} ("${specifier}")`);
+          continue;
+        }
+
+        // Projects on a prerelease follow prereleases, everyone else the latest stable release
+        const releases = index.packages[name];
+        const latest = (
+          current.includes('-')
+            ? releases[0]
+            : (releases.find(release => !release.version.includes('-')) ?? releases[0])
+        )?.version;
+        if (!latest || compareVersions(current, latest) >= 0) {
+          upToDate.push(`${name} (${current})`);
+          continue;
+        }
+
+        const pending = selectReleases(releases, { since: current, until: latest });
+        if (pending.some(release => release.entries.some(isBreakingChange))) withBreakingChanges.push(name);
+        upgradeSpecs.push(`${name}@${latest}`);
+        upgrades.push(describeUpgrade(name, current, latest, pending));
+      }
+
+      return [
+        '# Upgrade plan',
+        '',
+        ...(upgrades.length > 0
+          ? [
+              `Upgrade: \`pnpm add ${upgradeSpecs.join(' ')}\``,
+              withBreakingChanges.length > 0
+                ? `Breaking changes to review in: ${withBreakingChanges.join(', ')}`
+                : 'No breaking changes to review.',
+              '',
+              'Breaking changes are major changes, removals and changes described as breaking.',
+              '',
+              upgrades.join('\n\n'),
+            ]
+          : ['Every installed Mastra package is up to date.']),
+        ...(upToDate.length > 0 ? ['', `Up to date: ${upToDate.join(', ')}`] : []),
+        ...(unknownVersions.length > 0
+          ? ['', `Installed version unknown, pass the lockfile entries instead: ${unknownVersions.join(', ')}`]
+          : []),
+        ...(notCovered.length > 0 ? ['', `Not in the Mastra changelogs: ${notCovered.join(', ')}`] : []),
+      ].join('\n');
+    } catch (error) {
+      void logger.error('Failed to execute mastraUpgrade tool', error);
+      throw error;
+    }
+  },
+};
@@ -1,9 +1,12 @@
-import fs from 'fs/promises';
 import path, { dirname } from 'path';
 import { fileURLToPath } from 'url';
 import z from 'zod';
-
-const mdxFileCache = new Map<string, string[]>();
+import { analyzeQuery } from './query-analyzer';
+import type { AnalyzedQuery } from './query-analyzer';
+import { buildSearchIndex, querySearchIndex, readSearchIndex } from './search-index';
+import type { SearchIndex, SearchResult } from './search-index';
+import { buildSymbolIndex, readSymbolIndex } from './symbol-index';
+import type { SymbolIndex } from './symbol-index';
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 
@@ -17,96 +20,68 @@ export function fromPackageRoot(relative: string) {
 // can't use console.log() because it writes to stdout which will interfere with the MCP Stdio protocol
 export const log = console.error;
 
-async function* walkMdxFiles(dir: string): AsyncGenerator<string> {
-  if (mdxFileCache.has(dir)) {
-    for (const file of mdxFileCache.get(dir)!) yield file;
-    return;
-  }
-  const filesInDir: string[] = [];
-  const entries = await fs.readdir(dir, { withFileTypes: true });
-  for (const entry of entries) {
-    const fullPath = path.join(dir, entry.name);
-    if (entry.isDirectory()) {
-      // For directories, recurse and collect all files
-      for await (const file of walkMdxFiles(fullPath)) {
-        filesInDir.push(file);
-        yield file;
-      }
-    } else if (entry.isFile() && entry.name.endsWith('.mdx')) {
-      // For MDX files, add to collection and yield
-      filesInDir.push(fullPath);
-      yield fullPath;
-    }
-  }
-  mdxFileCache.set(dir, filesInDir);
-}
-
-async function searchDocumentContent(keywords: string[], baseDir: string): Promise<string[]> {
-  if (keywords.length === 0) return [];
+// Indexes written by the prepare step, keyed by the directory they cover
+const persistedSearchIndexes = new Map([[fromPackageRoot('.docs/raw'), fromPackageRoot('.docs/search-index.json')]]);
+const searchIndexCache = new Map<string, Promise<SearchIndex>>();
 
-  const fileScores = new Map<string, FileScore>();
+async function loadSearchIndex(baseDir: string): Promise<SearchIndex> {
+  const indexPath = persistedSearchIndexes.get(baseDir);
+  const persisted = indexPath ? await readSearchIndex(indexPath) : null;
+  // Directories without a prepared index (or a stale one) are indexed once in memory
+  return persisted ?? buildSearchIndex(baseDir);
+}
 
-  for await (const filePath of walkMdxFiles(baseDir)) {
-    let content: string;
-    try {
-      content = await fs.readFile(filePath, 'utf-8');
-    } catch {
-      continue;
-    }
-    const lines = content.split('\n');
-    lines.forEach(lineText => {
-      const lowerLine = lineText.toLowerCase();
-      for (const keyword of keywords) {
-        if (lowerLine.includes(keyword.toLowerCase())) {
-          const relativePath = path.relative(baseDir, filePath).replace(/\\/g, '/');
-          if (!fileScores.has(relativePath)) {
-            fileScores.set(relativePath, {
-              path: relativePath,
-              keywordMatches: new Set(),
-              totalMatches: 0,
-              titleMatches: 0,
-              pathRelevance: calculatePathRelevance(relativePath, keywords),
-            });
-          }
-          const score = fileScores.get(relativePath)!;
-          score.keywordMatches.add(keyword);
-          score.totalMatches++;
-          if (lowerLine.includes('#') || lowerLine.includes('title')) {
-            score.titleMatches++;
-          }
-        }
-      }
+export function getSearchIndex(baseDir: string): Promise<SearchIndex> {
+  const resolvedDir = path.resolve(baseDir);
+  let index = searchIndexCache.get(resolvedDir);
+  if (!index) {
+    index = loadSearchIndex(resolvedDir).catch(error => {
+      searchIndexCache.delete(resolvedDir);
+      throw error;
     });
+    searchIndexCache.set(resolvedDir, index);
   }
+  return index;
+}
 
-  // Filter to only files that contain ALL keywords, then rank
-  const validFiles = Array.from(fileScores.values())
-    .sort((a, b) => calculateFinalScore(b, keywords.length) - calculateFinalScore(a, keywords.length))
-    .slice(0, 10); // Limit to top 10 results
-
-  return validFiles.map(score => score.path);
+let symbolIndexCache: Promise<SymbolIndex> | null = null;
+
+/**
+ * Symbol index of the API reference, from the prepare step or built once in memory when it is missing or stale
+ */
+export function getSymbolIndex(): Promise<SymbolIndex> {
+  symbolIndexCache ??= readSymbolIndex(fromPackageRoot('.docs/symbol-index.json'))
+    .then(persisted => persisted ?? buildSymbolIndex(fromPackageRoot('.docs/raw')))
+    .catch(error => {
+      symbolIndexCache = null;
+      throw error;
+    });
+  return symbolIndexCache;
 }
 
-interface FileScore {
-  path: string;
-  keywordMatches: Set<string>;
-  totalMatches: number;
-  titleMatches: number;
-  pathRelevance: number;
+/**
+ * Rank documents below `baseDir` for the given keywords using the search index
+ */
+export async function rankDocuments(keywords: string[], baseDir: string, limit = 10): Promise<SearchResult[]> {
+  const index = await getSearchIndex(baseDir);
+  const query = analyzeQuery(keywords, index);
+  if (query.terms.length === 0) return [];
+
+  const results = querySearchIndex(index, query.terms, Math.max(limit * 5, 50));
+
+  return results
+    .map(result => ({ ...result, score: calculateFinalScore(result, query) }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
 }
 
-function calculatePathRelevance(filePath: string, keywords: string[]): number {
+function calculatePathRelevance(filePath: string): number {
   let relevance = 0;
   const pathLower = filePath.toLowerCase();
 
   // Boost for reference docs
   if (pathLower.startsWith('reference/')) relevance += 2;
 
-  // Boost if path contains any keywords
-  keywords.forEach(keyword => {
-    if (pathLower.includes(keyword.toLowerCase())) relevance += 3;
-  });
-
   // Boost for high-value directories
   const highValueDirs = ['rag', 'memory', 'agents', 'workflows'];
   if (highValueDirs.some(dir => pathLower.includes(dir))) {
@@ -116,15 +91,11 @@ function calculatePathRelevance(filePath: string, keywords: string[]): number {
   return relevance;
 }
 
-function calculateFinalScore(score: FileScore, totalKeywords: number): number {
-  const allKeywordsBonus = score.keywordMatches.size === totalKeywords ? 10 : 0;
-  return (
-    score.totalMatches * 1 +
-    score.titleMatches * 3 +
-    score.pathRelevance * 2 +
-    score.keywordMatches.size * 5 +
-    allKeywordsBonus // All keywords bonus
-  );
+function calculateFinalScore(result: SearchResult, query: AnalyzedQuery): number {
+  // Favour documents that match more of the query and sit under a path the query's synonyms point to,
+  // then nudge towards high-value sections
+  const synonymPathBoost = query.pathBoosts.some(prefix => result.path.startsWith(prefix)) ? 1.3 : 1;
+  return result.score * (0.5 + result.coverage) * synonymPathBoost + calculatePathRelevance(result.path) * 0.1;
 }
 
 function extractKeywordsFromPath(path: string): string[] {
@@ -160,12 +131,12 @@ export async function getMatchingPaths(path: string, queryKeywords: string[], ba
     return '';
   }
 
-  const suggestedPaths = await searchDocumentContent(allKeywords, baseDir);
+  const suggestedPaths = await rankDocuments(allKeywords, baseDir);
   if (suggestedPaths.length === 0) {
     return '';
   }
 
-  const pathList = suggestedPaths.map(path => `- ${path}`).join('\n');
+  const pathList = suggestedPaths.map(result => `- ${result.path}`).join('\n');
   return `Here are some paths that might be relevant based on your query:\n\n${pathList}`;
 }
 